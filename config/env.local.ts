@@ -21,6 +21,16 @@ export const localConfig: EnvConfig = {
     /** 로그 레벨 */
     logLevel: 'debug',
 
+    /** API 클라이언트 설정 */
+    api: {
+        /** 인증 방식 (Bearer 토큰) */
+        auth: 'bearer',
+        /** 요청 타임아웃 (밀리초) */
+        timeoutMs: 30000,
+        /** 응답 검증 (스키마 불일치 시 에러 발생) */
+        validation: 'throw',
+    },
+
     /** 기능 플래그 */
     features: {
         /** 개발자 도구 표시 */
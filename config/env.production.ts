@@ -21,6 +21,16 @@ export const productionConfig: EnvConfig = {
     /** 로그 레벨 */
     logLevel: 'error',
 
+    /** API 클라이언트 설정 */
+    api: {
+        /** 인증 방식 (Bearer 토큰) */
+        auth: 'bearer',
+        /** 요청 타임아웃 (밀리초) */
+        timeoutMs: 10000,
+        /** 응답 검증 (스키마 불일치는 보고만 하고 통과) */
+        validation: 'report',
+    },
+
     /** 기능 플래그 */
     features: {
         /** 개발자 도구 비표시 */
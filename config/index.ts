@@ -48,7 +48,7 @@ const configMap: Record<string, EnvConfig> = {
 export const config: EnvConfig = configMap[detectEnvironment()];
 
 // 타입 및 개별 설정 export
-export type { EnvConfig, Environment, LogLevel, FeatureFlags } from './types';
+export type { EnvConfig, Environment, LogLevel, FeatureFlags, ApiConfig } from './types';
 export { localConfig } from './env.local';
 export { developmentConfig } from './env.development';
 export { productionConfig } from './env.production';
@@ -23,6 +23,27 @@ export interface FeatureFlags {
     useMockData: boolean;
 }
 
+/**
+ * API 클라이언트 설정 타입
+ */
+export interface ApiConfig {
+    /** 기본 요청 타임아웃 (밀리초, 0이면 무제한) */
+    timeoutMs: number;
+    /**
+     * 인증 방식
+     * - bearer: Authorization 헤더의 액세스 토큰 (401 시 토큰 갱신)
+     * - cookie: 세션 쿠키(credentials: 'include') + 변경 요청의 CSRF 토큰 헤더
+     */
+    auth: 'bearer' | 'cookie';
+    /**
+     * 응답 스키마 검증 실패 처리 방식
+     * - throw: ValidationError throw
+     * - report: 이벤트로 보고 후 원본 데이터 반환
+     * - off: 검증하지 않음
+     */
+    validation: 'throw' | 'report' | 'off';
+}
+
 /**
  * 환경 설정 타입
  */
@@ -35,6 +56,8 @@ export interface EnvConfig {
     debug: boolean;
     /** 로그 레벨 */
     logLevel: LogLevel;
+    /** API 클라이언트 설정 */
+    api: ApiConfig;
     /** 기능 플래그 */
     features: FeatureFlags;
 }
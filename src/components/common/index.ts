@@ -0,0 +1,7 @@
+/**
+ * @file 공통 컴포넌트 배럴 파일
+ * @description 여러 화면에서 재사용하는 컴포넌트들을 한 곳에서 export
+ */
+
+export { TransferProgress, default as TransferProgressDefault } from './transfer-progress';
+export { PendingChangesBadge, default as PendingChangesBadgeDefault } from './pending-changes-badge';
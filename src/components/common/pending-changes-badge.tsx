@@ -0,0 +1,66 @@
+/**
+ * @file 대기 중인 변경 표시 컴포넌트
+ * @description 오프라인 큐에 남아 있는 변경 요청 수를 표시하고, 클릭하면 즉시 재전송 (로그인 만료 시 안내)
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { useOfflineQueue } from '@/hooks';
+import { cn } from '@/lib/utils';
+
+/**
+ * 대기 중인 변경 표시 컴포넌트 Props
+ */
+interface PendingChangesBadgeProps {
+    /** 추가 클래스 */
+    className?: string;
+}
+
+/**
+ * 대기 중인 변경 표시 컴포넌트
+ * 대기 중인 요청이 없으면 표시하지 않음
+ *
+ * @example
+ * <PendingChangesBadge />
+ */
+export function PendingChangesBadge({ className }: PendingChangesBadgeProps) {
+    const { pending, isOnline, isReplaying, isAuthRequired, replay } = useOfflineQueue();
+
+    if (pending === 0) {
+        return null;
+    }
+
+    const label = isReplaying
+        ? '동기화 중...'
+        : isAuthRequired
+          ? `${pending}개 변경 대기 중 (로그인 필요)`
+          : `${pending}개 변경 대기 중`;
+    const title = !isOnline
+        ? '오프라인 상태입니다. 연결되면 자동으로 동기화됩니다.'
+        : isAuthRequired
+          ? '로그인이 만료되었습니다. 다시 로그인하면 자동으로 동기화됩니다.'
+          : '지금 동기화';
+
+    return (
+        <Button
+            variant="outline"
+            size="sm"
+            className={cn('gap-2', className)}
+            onClick={() => void replay()}
+            disabled={!isOnline || isReplaying}
+            title={title}
+            aria-live="polite"
+        >
+            {/* 상태 표시 점 (오프라인: 회색, 온라인: 주황) */}
+            <span
+                className={cn('h-2 w-2 rounded-full', isOnline ? 'bg-amber-500' : 'bg-muted-foreground')}
+                aria-hidden="true"
+            />
+            {label}
+        </Button>
+    );
+}
+
+export default PendingChangesBadge;
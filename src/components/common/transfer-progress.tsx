@@ -0,0 +1,67 @@
+/**
+ * @file 전송 진행률 컴포넌트
+ * @description 업로드/다운로드 진행률을 막대와 전송량(formatBytes)으로 표시
+ */
+
+'use client';
+
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import type { TransferProgress as TransferProgressValue } from '@/lib/api';
+import { formatBytes } from '@/lib/format';
+import { cn } from '@/lib/utils';
+
+/**
+ * 전송 진행률 컴포넌트 Props
+ */
+interface TransferProgressProps {
+    /** apiClient의 onProgress로 받은 진행 상태 (없으면 표시하지 않음) */
+    progress: TransferProgressValue | null | undefined;
+    /** 진행률 위에 표시할 라벨 (기본: 방향에 따라 '업로드 중' / '다운로드 중') */
+    label?: string;
+    /** 추가 클래스 */
+    className?: string;
+}
+
+/**
+ * 방향별 기본 라벨
+ */
+const DEFAULT_LABELS = {
+    upload: '업로드 중',
+    download: '다운로드 중',
+} as const;
+
+/**
+ * 전송 진행률 컴포넌트
+ * 전체 크기를 알 수 없으면 전송량만 표시하고 막대는 진행 중 상태로 표시
+ *
+ * @example
+ * const [progress, setProgress] = useState<TransferProgress | null>(null);
+ *
+ * await apiClient.post('/files', formData, { onProgress: setProgress });
+ *
+ * <TransferProgress progress={progress} label="파일 업로드" />
+ */
+export function TransferProgress({ progress, label, className }: TransferProgressProps) {
+    if (!progress) {
+        return null;
+    }
+
+    const { direction, loaded, total, percent } = progress;
+    const amount = total !== undefined ? `${formatBytes(loaded)} / ${formatBytes(total)}` : formatBytes(loaded);
+
+    return (
+        <div className={cn('space-y-1.5', className)}>
+            <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{label ?? DEFAULT_LABELS[direction]}</span>
+                <span className="text-muted-foreground tabular-nums">
+                    {amount}
+                    {percent !== undefined && ` (${percent}%)`}
+                </span>
+            </div>
+            <Progress value={percent} />
+        </div>
+    );
+}
+
+export default TransferProgress;
@@ -7,10 +7,12 @@
  * - 사이드바 토글 버튼
  * - 테마 토글
  * - 사용자 메뉴
+ * - 오프라인 큐 대기 중인 변경 표시
  */
 
 'use client';
 
+import { PendingChangesBadge } from '@/components/common';
 import { Button } from '@/components/ui/button';
 import {
     DropdownMenu,
@@ -83,6 +85,9 @@ export function Header({ title = 'Next.js Template' }: HeaderProps) {
 
                 {/* 우측 메뉴 영역 */}
                 <div className="flex flex-1 items-center justify-end space-x-2">
+                    {/* 대기 중인 변경 (오프라인 큐) */}
+                    <PendingChangesBadge />
+
                     {/* 테마 토글 버튼 */}
                     <Button
                         variant="ghost"
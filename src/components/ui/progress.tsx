@@ -0,0 +1,39 @@
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+function Progress({
+  className,
+  value,
+  ...props
+}: React.ComponentProps<"div"> & { value?: number | null }) {
+  const indeterminate = value === undefined || value === null
+  const percent = indeterminate ? 0 : Math.min(100, Math.max(0, value))
+
+  return (
+    <div
+      data-slot="progress"
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={indeterminate ? undefined : percent}
+      data-state={indeterminate ? "indeterminate" : percent === 100 ? "complete" : "loading"}
+      className={cn(
+        "bg-primary/20 relative h-2 w-full overflow-hidden rounded-full",
+        className
+      )}
+      {...props}
+    >
+      <div
+        data-slot="progress-indicator"
+        className={cn(
+          "bg-primary h-full transition-all",
+          indeterminate ? "w-1/3 animate-pulse" : "w-full flex-1"
+        )}
+        style={indeterminate ? undefined : { transform: `translateX(-${100 - percent}%)` }}
+      />
+    </div>
+  )
+}
+
+export { Progress }
@@ -7,3 +7,19 @@ export { useLocalStorage } from './use-local-storage';
 export { useIndexedDB } from './use-indexed-db';
 export { useMediaQuery, useBreakpoints, BREAKPOINTS } from './use-media-query';
 export { useDebounce } from './use-debounce';
+export { useApiQuery } from './use-api-query';
+export type { UseApiQueryOptions, UseApiQueryResult } from './use-api-query';
+export { useApiMutation } from './use-api-mutation';
+export type { UseApiMutationOptions, UseApiMutationResult, MutationStatus } from './use-api-mutation';
+export { usePaginatedQuery } from './use-paginated-query';
+export type { UsePaginatedQueryResult } from './use-paginated-query';
+export { useInfiniteQuery } from './use-infinite-query';
+export type { UseInfiniteQueryOptions, UseInfiniteQueryResult } from './use-infinite-query';
+export { useEventStream } from './use-event-stream';
+export type { UseEventStreamOptions, UseEventStreamResult, EventStreamStatus } from './use-event-stream';
+export { useSubscription } from './use-subscription';
+export type { UseSubscriptionOptions, UseSubscriptionResult } from './use-subscription';
+export { useOfflineQueue } from './use-offline-queue';
+export type { UseOfflineQueueResult } from './use-offline-queue';
+export { useRequestQueue } from './use-request-queue';
+export type { UseRequestQueueResult } from './use-request-queue';
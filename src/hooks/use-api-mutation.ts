@@ -0,0 +1,226 @@
+/**
+ * @file API 뮤테이션 훅
+ * @description 생성/수정/삭제 요청 상태 관리 및 성공 시 쿼리 캐시 무효화
+ *
+ * @example
+ * const { mutate, isPending, error } = useApiMutation(endpointMutation(ENDPOINTS.USERS.UPDATE), {
+ *   invalidates: [['users']],
+ *   onSuccess: () => toast.success('저장되었습니다.'),
+ * });
+ *
+ * mutate({ params: { id }, body: { name } });
+ *
+ * // 낙관적 업데이트: 응답 전에 목록/상세 캐시를 먼저 변경, 실패하면 되돌리고 토스트 표시
+ * const { mutate: rename } = useApiMutation(endpointMutation(ENDPOINTS.USERS.UPDATE), {
+ *   optimistic: [
+ *     {
+ *       queryKey: ({ params }) => ['users', params.id],
+ *       update: (user: User, { body }) => ({ ...user, ...body }),
+ *       reconcile: (_, saved) => saved,
+ *     },
+ *   ],
+ *   invalidates: [['users']],
+ * });
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { getFriendlyErrorMessage, isAbortError } from '@/lib/api';
+import {
+    applyOptimisticUpdate,
+    queryClient,
+    type OptimisticSnapshot,
+    type OptimisticUpdate,
+    type QueryKey,
+} from '@/lib/query';
+
+/**
+ * 뮤테이션 상태
+ */
+export type MutationStatus = 'idle' | 'pending' | 'success' | 'error';
+
+/**
+ * useApiMutation 옵션
+ */
+export interface UseApiMutationOptions<TData, TVariables> {
+    /** 성공 시 무효화할 쿼리 키 프리픽스 목록 */
+    invalidates?: QueryKey[] | ((data: TData, variables: TVariables) => QueryKey[]);
+    /** 성공 콜백 */
+    onSuccess?: (data: TData, variables: TVariables) => void | Promise<void>;
+    /** 실패 콜백 */
+    onError?: (error: unknown, variables: TVariables) => void | Promise<void>;
+    /** 성공/실패와 관계없이 완료 시 호출 */
+    onSettled?: (data: TData | undefined, error: unknown, variables: TVariables) => void | Promise<void>;
+    /** 낙관적 업데이트 (요청 전에 캐시를 변경하고 요청이 실패하면 되돌림) */
+    optimistic?: OptimisticUpdate<unknown, TData, TVariables>[];
+    /** 되돌릴 때 표시할 토스트 제목 (false면 표시하지 않음, 취소된 요청은 표시하지 않음, 기본: '변경 사항을 저장하지 못했습니다.') */
+    rollbackToast?: string | false;
+}
+
+/**
+ * useApiMutation 반환값
+ */
+export interface UseApiMutationResult<TData, TVariables> {
+    /** 뮤테이션 실행 (에러는 상태로만 전달) */
+    mutate: (variables: TVariables) => void;
+    /** 뮤테이션 실행 (결과 반환, 실패 시 에러 throw) */
+    mutateAsync: (variables: TVariables) => Promise<TData>;
+    /** 마지막 성공 결과 */
+    data: TData | undefined;
+    /** 마지막 에러 */
+    error: unknown;
+    /** 뮤테이션 상태 */
+    status: MutationStatus;
+    /** 요청 진행 중 */
+    isPending: boolean;
+    /** 마지막 요청이 성공함 */
+    isSuccess: boolean;
+    /** 마지막 요청이 실패함 */
+    isError: boolean;
+    /** 상태 초기화 */
+    reset: () => void;
+}
+
+/**
+ * 뮤테이션 내부 상태
+ */
+interface MutationState<TData> {
+    data: TData | undefined;
+    error: unknown;
+    status: MutationStatus;
+}
+
+const INITIAL_STATE: MutationState<never> = { data: undefined, error: null, status: 'idle' };
+
+/**
+ * 변수에 따라 달라지는 쿼리 키 해석
+ */
+function resolveKey<TVariables>(queryKey: QueryKey | ((variables: TVariables) => QueryKey), variables: TVariables) {
+    return typeof queryKey === 'function' ? queryKey(variables) : queryKey;
+}
+
+/**
+ * API 뮤테이션 훅
+ *
+ * @param mutationFn - 요청을 실행하는 함수
+ * @param options - 캐시 무효화 및 콜백 옵션
+ * @returns 뮤테이션 실행 함수와 상태
+ */
+export function useApiMutation<TData, TVariables = void>(
+    mutationFn: (variables: TVariables) => Promise<TData>,
+    options: UseApiMutationOptions<TData, TVariables> = {}
+): UseApiMutationResult<TData, TVariables> {
+    const [state, setState] = useState<MutationState<TData>>(INITIAL_STATE);
+
+    // 최신 함수/옵션 참조 (인라인 콜백 허용)
+    const latestRef = useRef({ mutationFn, options });
+    useEffect(() => {
+        latestRef.current = { mutationFn, options };
+    });
+
+    // 언마운트 후 상태 업데이트 방지
+    const mountedRef = useRef(true);
+    useEffect(() => {
+        mountedRef.current = true;
+        return () => {
+            mountedRef.current = false;
+        };
+    }, []);
+
+    const update = useCallback((next: MutationState<TData>) => {
+        if (mountedRef.current) {
+            setState(next);
+        }
+    }, []);
+
+    const mutateAsync = useCallback(
+        async (variables: TVariables): Promise<TData> => {
+            const { mutationFn: run, options: current } = latestRef.current;
+            const optimistic = current.optimistic ?? [];
+            update({ data: undefined, error: null, status: 'pending' });
+
+            const snapshots: OptimisticSnapshot[] = [];
+            let data: TData;
+
+            try {
+                // 낙관적 업데이트 적용 (진행 중인 조회 응답이 변경을 덮어쓰지 않도록 먼저 취소)
+                optimistic.forEach((item) => {
+                    const key = resolveKey(item.queryKey, variables);
+                    queryClient.cancelQueries(key);
+                    snapshots.push(
+                        applyOptimisticUpdate(queryClient, key, (previous, cacheKey) =>
+                            item.update(previous, variables, cacheKey)
+                        )
+                    );
+                });
+
+                data = await run(variables);
+            } catch (error) {
+                // 업데이트 적용이나 요청이 실패하면 원인과 관계없이 되돌리기 (적용한 역순)
+                [...snapshots].reverse().forEach((snapshot) => snapshot.rollback());
+
+                // 호출자가 취소한 요청은 알림 없이 되돌리기만 함
+                if (
+                    !isAbortError(error) &&
+                    current.rollbackToast !== false &&
+                    snapshots.some((snapshot) => snapshot.keys.length > 0)
+                ) {
+                    toast.error(current.rollbackToast ?? '변경 사항을 저장하지 못했습니다.', {
+                        description: getFriendlyErrorMessage(error),
+                    });
+                }
+
+                update({ data: undefined, error, status: 'error' });
+                await current.onError?.(error, variables);
+                await current.onSettled?.(undefined, error, variables);
+                throw error;
+            }
+
+            // 서버 응답으로 캐시 보정
+            // (이후 단계의 예외는 서버에 이미 반영된 변경이므로 되돌리지 않고 호출자에게 그대로 전달)
+            optimistic.forEach((item) => {
+                const { reconcile } = item;
+                if (!reconcile) return;
+
+                applyOptimisticUpdate(queryClient, resolveKey(item.queryKey, variables), (current, cacheKey) =>
+                    reconcile.call(item, current, data, variables, cacheKey)
+                );
+            });
+
+            const invalidates =
+                typeof current.invalidates === 'function'
+                    ? current.invalidates(data, variables)
+                    : (current.invalidates ?? []);
+            await Promise.all(invalidates.map((prefix) => queryClient.invalidateQueries(prefix)));
+
+            update({ data, error: null, status: 'success' });
+            await current.onSuccess?.(data, variables);
+            await current.onSettled?.(data, null, variables);
+            return data;
+        },
+        [update]
+    );
+
+    const mutate = useCallback(
+        (variables: TVariables) => {
+            mutateAsync(variables).catch(() => undefined);
+        },
+        [mutateAsync]
+    );
+
+    const reset = useCallback(() => update(INITIAL_STATE), [update]);
+
+    return {
+        mutate,
+        mutateAsync,
+        data: state.data,
+        error: state.error,
+        status: state.status,
+        isPending: state.status === 'pending',
+        isSuccess: state.status === 'success',
+        isError: state.status === 'error',
+        reset,
+    };
+}
@@ -0,0 +1,185 @@
+/**
+ * @file API 쿼리 훅
+ * @description 쿼리 캐시 기반 데이터 조회 훅
+ *
+ * 특징:
+ * - 키 기반 캐시 공유 (같은 키를 사용하는 컴포넌트는 한 번만 요청)
+ * - stale-while-revalidate (캐시를 먼저 보여주고 백그라운드에서 재검증)
+ * - 창 포커스/네트워크 재연결 시 오래된 데이터 재요청
+ * - 무효화(invalidateQueries) 시 자동 재요청
+ * - 키 변경 시 이전 데이터 유지 옵션 (keepPreviousData)
+ *
+ * @example
+ * // 엔드포인트 정의로 조회 (응답 타입 자동 추론)
+ * const { data: user, isLoading, error } = useApiQuery(
+ *   endpointQuery(ENDPOINTS.USERS.DETAIL, { params: { id } })
+ * );
+ *
+ * // 신선도 유지 시간 지정 / 조건부 조회
+ * const { data } = useApiQuery({
+ *   ...endpointQuery(ENDPOINTS.USERS.LIST, { query: { page } }),
+ *   staleTime: 30_000,
+ *   enabled: isLoggedIn,
+ * });
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+    hashQueryKey,
+    INITIAL_QUERY_STATE,
+    queryClient,
+    type QueryFunction,
+    type QueryKey,
+    type QueryState,
+    type QueryStatus,
+} from '@/lib/query';
+
+/**
+ * useApiQuery 옵션
+ */
+export interface UseApiQueryOptions<T> {
+    /** 쿼리 키 */
+    queryKey: QueryKey;
+    /** 데이터를 가져오는 함수 */
+    queryFn: QueryFunction<T>;
+    /** false이면 요청하지 않음 (기본: true) */
+    enabled?: boolean;
+    /** 데이터가 신선하다고 간주되는 시간 (밀리초, 기본: 0) */
+    staleTime?: number;
+    /** 창 포커스 시 오래된 데이터 재요청 (기본: true) */
+    refetchOnWindowFocus?: boolean;
+    /** 네트워크 재연결 시 오래된 데이터 재요청 (기본: true) */
+    refetchOnReconnect?: boolean;
+    /** 키가 바뀌어 새 데이터를 불러오는 동안 이전 키의 데이터 유지 (기본: false) */
+    keepPreviousData?: boolean;
+}
+
+/**
+ * useApiQuery 반환값
+ */
+export interface UseApiQueryResult<T> {
+    /** 캐시된 데이터 */
+    data: T | undefined;
+    /** 마지막 요청 에러 */
+    error: unknown;
+    /** 쿼리 상태 */
+    status: QueryStatus;
+    /** 아직 데이터가 없고 요청 예정이거나 요청 중 */
+    isLoading: boolean;
+    /** 요청 진행 중 (백그라운드 재검증 포함) */
+    isFetching: boolean;
+    /** 마지막 요청이 성공함 */
+    isSuccess: boolean;
+    /** 마지막 요청이 실패함 */
+    isError: boolean;
+    /** data가 이전 키의 데이터인지 여부 (keepPreviousData 사용 시) */
+    isPlaceholderData: boolean;
+    /** 신선도와 관계없이 다시 요청 */
+    refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * API 쿼리 훅
+ *
+ * @param options - 쿼리 키, 쿼리 함수 및 재검증 옵션
+ * @returns 쿼리 상태와 refetch 함수
+ */
+export function useApiQuery<T>(options: UseApiQueryOptions<T>): UseApiQueryResult<T> {
+    const {
+        queryKey,
+        queryFn,
+        enabled = true,
+        staleTime = 0,
+        refetchOnWindowFocus = true,
+        refetchOnReconnect = true,
+        keepPreviousData = false,
+    } = options;
+
+    // 키 배열은 렌더링마다 새로 생성되므로 해시가 바뀔 때만 갱신 (해시에서 복원해도 같은 캐시 항목)
+    const hash = hashQueryKey(queryKey);
+    const key = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+    // 최신 쿼리 함수 참조 (인라인 함수로 인한 재요청 방지)
+    const queryFnRef = useRef(queryFn);
+    useEffect(() => {
+        queryFnRef.current = queryFn;
+    });
+
+    const subscribe = useCallback((onChange: () => void) => queryClient.subscribe(key, onChange), [key]);
+    const state = useSyncExternalStore(
+        subscribe,
+        () => queryClient.getQueryState<T>(key),
+        () => INITIAL_QUERY_STATE as QueryState<T>
+    );
+
+    /**
+     * 쿼리 실행 (신선하면 캐시 사용, 진행 중이면 결과 공유)
+     */
+    const fetchQuery = useCallback(
+        (force: boolean) =>
+            queryClient
+                .fetchQuery(key, (context) => queryFnRef.current(context), { staleTime, force })
+                .catch(() => queryClient.getQueryData<T>(key)),
+        [key, staleTime]
+    );
+
+    // 마운트/키 변경 시 조회
+    useEffect(() => {
+        if (enabled) {
+            fetchQuery(false);
+        }
+    }, [enabled, fetchQuery]);
+
+    // 창 포커스/재연결 시 재검증
+    useEffect(() => {
+        if (!enabled || typeof window === 'undefined') {
+            return;
+        }
+
+        const revalidate = () => {
+            if (document.visibilityState === 'visible') {
+                fetchQuery(false);
+            }
+        };
+
+        if (refetchOnWindowFocus) {
+            window.addEventListener('focus', revalidate);
+            document.addEventListener('visibilitychange', revalidate);
+        }
+        if (refetchOnReconnect) {
+            window.addEventListener('online', revalidate);
+        }
+
+        return () => {
+            window.removeEventListener('focus', revalidate);
+            document.removeEventListener('visibilitychange', revalidate);
+            window.removeEventListener('online', revalidate);
+        };
+    }, [enabled, refetchOnWindowFocus, refetchOnReconnect, fetchQuery]);
+
+    const refetch = useCallback(() => fetchQuery(true), [fetchQuery]);
+
+    // 마지막으로 받은 데이터 (keepPreviousData용)
+    const previousDataRef = useRef<T | undefined>(undefined);
+    useEffect(() => {
+        if (state.data !== undefined) {
+            previousDataRef.current = state.data;
+        }
+    }, [state.data]);
+
+    const isPlaceholderData = keepPreviousData && state.data === undefined && previousDataRef.current !== undefined;
+
+    return {
+        data: isPlaceholderData ? previousDataRef.current : state.data,
+        error: state.error,
+        status: state.status,
+        isLoading: state.status === 'pending' && enabled && !isPlaceholderData,
+        isFetching: state.isFetching,
+        isSuccess: state.status === 'success',
+        isError: state.status === 'error',
+        isPlaceholderData,
+        refetch,
+    };
+}
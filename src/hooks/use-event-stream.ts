@@ -0,0 +1,172 @@
+/**
+ * @file 이벤트 스트림 훅
+ * @description apiClient.stream()으로 Server-Sent Events를 구독하는 훅
+ *
+ * 특징:
+ * - 최근 이벤트 버퍼와 마지막 이벤트 제공
+ * - 연결 상태 표시 (connecting → open → reconnecting → closed)
+ * - 언마운트 또는 endpoint 변경 시 자동 연결 종료
+ * - 재연결 시 마지막 이벤트 ID(Last-Event-ID)부터 이어 받기
+ *
+ * @example
+ * const { lastEvent, status } = useEventStream<JobProgress>(`/jobs/${jobId}/progress`, {
+ *   onEvent: (event) => {
+ *     if (event.event === 'done') queryClient.invalidateQueries(['jobs', jobId]);
+ *   },
+ * });
+ *
+ * <Progress value={lastEvent?.data.percent} />
+ *
+ * // 로그 출력 (최근 500줄)
+ * const { events } = useEventStream<string>(`/jobs/${jobId}/logs`, { bufferSize: 500 });
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiClient, isAbortError, type ServerSentEvent, type StreamOptions } from '@/lib/api';
+
+/**
+ * 스트림 연결 상태
+ */
+export type EventStreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' | 'error';
+
+/**
+ * useEventStream 옵션
+ */
+export interface UseEventStreamOptions<T>
+    extends Omit<StreamOptions<T>, 'format' | 'signal' | 'onOpen' | 'onReconnect'> {
+    /** false이면 연결하지 않음 (기본: true) */
+    enabled?: boolean;
+    /** 보관할 최근 이벤트 수 (기본: 100, 0이면 보관하지 않음) */
+    bufferSize?: number;
+    /** 이벤트 수신 콜백 */
+    onEvent?: (event: ServerSentEvent<T>) => void;
+}
+
+/**
+ * useEventStream 반환값
+ */
+export interface UseEventStreamResult<T> {
+    /** 최근 이벤트 (오래된 순) */
+    events: ServerSentEvent<T>[];
+    /** 마지막 이벤트 */
+    lastEvent: ServerSentEvent<T> | undefined;
+    /** 연결 상태 */
+    status: EventStreamStatus;
+    /** 연결이 실패하여 종료된 경우의 에러 */
+    error: unknown;
+    /** 연결 종료 */
+    close: () => void;
+}
+
+/**
+ * 훅 전용 옵션(enabled, bufferSize, onEvent)을 제외한 stream() 옵션
+ */
+function toStreamOptions<T>(
+    options: UseEventStreamOptions<T>
+): Omit<UseEventStreamOptions<T>, 'enabled' | 'bufferSize' | 'onEvent'> {
+    const streamOptions = { ...options };
+    delete streamOptions.enabled;
+    delete streamOptions.bufferSize;
+    delete streamOptions.onEvent;
+    return streamOptions;
+}
+
+/**
+ * 이벤트 스트림 훅
+ *
+ * @param endpoint - 스트림 엔드포인트 (null이면 연결하지 않음)
+ * @param options - 스트림 및 버퍼 옵션
+ * @returns 수신한 이벤트와 연결 상태
+ */
+export function useEventStream<T = unknown>(
+    endpoint: string | null,
+    options: UseEventStreamOptions<T> = {}
+): UseEventStreamResult<T> {
+    const { enabled = true } = options;
+    const [events, setEvents] = useState<ServerSentEvent<T>[]>([]);
+    const [lastEvent, setLastEvent] = useState<ServerSentEvent<T>>();
+    const [status, setStatus] = useState<EventStreamStatus>('idle');
+    const [error, setError] = useState<unknown>(null);
+
+    // 최신 옵션 참조 (인라인 객체/콜백으로 인한 재연결 방지)
+    const optionsRef = useRef(options);
+    useEffect(() => {
+        optionsRef.current = options;
+    });
+
+    const controllerRef = useRef<AbortController | null>(null);
+
+    // 중단된 연결은 상태를 바꾸지 않으므로 직접 닫을 때 상태를 갱신
+    const close = useCallback(() => {
+        const controller = controllerRef.current;
+        if (!controller || controller.signal.aborted) return;
+
+        controller.abort();
+        setStatus('closed');
+    }, []);
+
+    useEffect(() => {
+        if (!endpoint || !enabled) {
+            return;
+        }
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const { bufferSize = 100 } = optionsRef.current;
+        const streamOptions = toStreamOptions(optionsRef.current);
+
+        setEvents([]);
+        setLastEvent(undefined);
+        setError(null);
+        setStatus('connecting');
+
+        // 엔드포인트 변경이나 언마운트로 중단된 연결은 새 연결의 상태를 덮어쓰지 않도록 무시
+        const { signal } = controller;
+
+        (async () => {
+            try {
+                const stream = apiClient.stream<T>(endpoint, {
+                    ...streamOptions,
+                    format: 'sse',
+                    signal,
+                    onOpen: () => {
+                        if (!signal.aborted) setStatus('open');
+                    },
+                    onReconnect: () => {
+                        if (!signal.aborted) setStatus('reconnecting');
+                    },
+                });
+
+                for await (const event of stream) {
+                    if (signal.aborted) return;
+
+                    setLastEvent(event);
+                    if (bufferSize > 0) {
+                        setEvents((prev) => [...prev, event].slice(-bufferSize));
+                    }
+                    optionsRef.current.onEvent?.(event);
+                }
+
+                if (signal.aborted) return;
+                setStatus('closed');
+            } catch (err) {
+                if (signal.aborted) return;
+                if (isAbortError(err)) {
+                    setStatus('closed');
+                    return;
+                }
+                setError(err);
+                setStatus('error');
+            }
+        })();
+
+        // 클린업: 연결 종료
+        return () => {
+            controller.abort();
+        };
+    }, [endpoint, enabled]);
+
+    return { events, lastEvent, status, error, close };
+}
@@ -26,7 +26,10 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { openDB, IDBPDatabase } from 'idb';
+import { getDB } from '@/lib/indexed-db';
+import { logger } from '@/lib/logger';
+
+const log = logger.child('useIndexedDB');
 
 /**
  * IndexedDB 훅 설정 옵션
@@ -60,38 +63,6 @@ interface UseIndexedDBReturn<T> {
     refresh: () => Promise<void>;
 }
 
-/**
- * IndexedDB 데이터베이스 인스턴스 캐시
- * 동일한 데이터베이스에 대한 중복 연결 방지
- */
-const dbCache: Map<string, Promise<IDBPDatabase>> = new Map();
-
-/**
- * IndexedDB 데이터베이스 열기
- * 캐시된 연결이 있으면 재사용
- */
-async function getDB(
-    dbName: string,
-    storeName: string,
-    version: number
-): Promise<IDBPDatabase> {
-    const cacheKey = `${dbName}-${version}`;
-
-    if (!dbCache.has(cacheKey)) {
-        const dbPromise = openDB(dbName, version, {
-            upgrade(db) {
-                // 객체 저장소가 없으면 생성
-                if (!db.objectStoreNames.contains(storeName)) {
-                    db.createObjectStore(storeName);
-                }
-            },
-        });
-        dbCache.set(cacheKey, dbPromise);
-    }
-
-    return dbCache.get(cacheKey)!;
-}
-
 /**
  * IndexedDB 상태 관리 훅
  *
@@ -125,7 +96,7 @@ export function useIndexedDB<T>(options: UseIndexedDBOptions): UseIndexedDBRetur
 
             setData(value as T | null);
         } catch (err) {
-            console.error('[useIndexedDB] 데이터 조회 실패:', err);
+            log.error('데이터 조회 실패', { dbName, storeName, key, error: err });
             setError(err instanceof Error ? err : new Error('데이터 조회 중 오류 발생'));
         } finally {
             setIsLoading(false);
@@ -150,7 +121,7 @@ export function useIndexedDB<T>(options: UseIndexedDBOptions): UseIndexedDBRetur
                 setData(value);
             } catch (err) {
                 const error = err instanceof Error ? err : new Error('데이터 저장 중 오류 발생');
-                console.error('[useIndexedDB] 데이터 저장 실패:', error);
+                log.error('데이터 저장 실패', { dbName, storeName, key, error });
                 setError(error);
                 throw error;
             }
@@ -175,7 +146,7 @@ export function useIndexedDB<T>(options: UseIndexedDBOptions): UseIndexedDBRetur
             setData(null);
         } catch (err) {
             const error = err instanceof Error ? err : new Error('데이터 삭제 중 오류 발생');
-            console.error('[useIndexedDB] 데이터 삭제 실패:', error);
+            log.error('데이터 삭제 실패', { dbName, storeName, key, error });
             setError(error);
             throw error;
         }
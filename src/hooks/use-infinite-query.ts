@@ -0,0 +1,119 @@
+/**
+ * @file 무한 목록 쿼리 훅
+ * @description 페이지를 이어 붙이는 무한 스크롤용 쿼리 훅 (오프셋/커서 기반 모두 지원)
+ *
+ * 특징:
+ * - 불러온 페이지 전체를 하나의 캐시 항목으로 관리
+ * - 무효화/포커스 재검증 시 불러온 페이지 수만큼 처음부터 다시 요청
+ * - 다음 페이지 존재 여부는 getNextPageParam 결과로 판단
+ *
+ * @example
+ * const { data, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery(
+ *   infiniteEndpointQuery(ENDPOINTS.USERS.LIST, { query: { limit: 20, sortBy: 'createdAt' } })
+ * );
+ *
+ * const users = data?.pages.flatMap((page) => page.items) ?? [];
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { queryClient, type InfiniteData, type InfiniteQueryOptions } from '@/lib/query';
+import { useApiQuery, type UseApiQueryOptions, type UseApiQueryResult } from './use-api-query';
+
+/**
+ * useInfiniteQuery 옵션
+ */
+export type UseInfiniteQueryOptions<TPage, TPageParam> = InfiniteQueryOptions<TPage, TPageParam> &
+    Omit<UseApiQueryOptions<InfiniteData<TPage, TPageParam>>, 'queryKey' | 'queryFn' | 'keepPreviousData'>;
+
+/**
+ * useInfiniteQuery 반환값
+ */
+export interface UseInfiniteQueryResult<TPage, TPageParam>
+    extends UseApiQueryResult<InfiniteData<TPage, TPageParam>> {
+    /** 다음 페이지 존재 여부 */
+    hasNextPage: boolean;
+    /** 다음 페이지 요청 중 여부 */
+    isFetchingNextPage: boolean;
+    /** 다음 페이지 요청 (없거나 요청 중이면 무시) */
+    fetchNextPage: () => Promise<void>;
+}
+
+/**
+ * 무한 목록 쿼리 훅
+ *
+ * @param options - 쿼리 키, 페이지 함수, 페이지 파라미터 계산 함수 및 재검증 옵션
+ * @returns 불러온 페이지 목록과 다음 페이지 요청 함수
+ */
+export function useInfiniteQuery<TPage, TPageParam>(
+    options: UseInfiniteQueryOptions<TPage, TPageParam>
+): UseInfiniteQueryResult<TPage, TPageParam> {
+    const { queryKey, queryFn, initialPageParam, getNextPageParam, ...queryOptions } = options;
+    const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+
+    /**
+     * 처음부터 불러온 페이지 수만큼 다시 요청 (최소 1페이지)
+     */
+    const fetchPages = async ({ signal }: { signal: AbortSignal }): Promise<InfiniteData<TPage, TPageParam>> => {
+        const pageCount = Math.max(
+            queryClient.getQueryData<InfiniteData<TPage, TPageParam>>(queryKey)?.pages.length ?? 0,
+            1
+        );
+        const result: InfiniteData<TPage, TPageParam> = { pages: [], pageParams: [] };
+        let pageParam: TPageParam | undefined | null = initialPageParam;
+
+        while (pageParam !== undefined && pageParam !== null && result.pages.length < pageCount) {
+            const page = await queryFn({ pageParam, signal });
+            result.pages.push(page);
+            result.pageParams.push(pageParam);
+            pageParam = getNextPageParam(page, result.pages);
+        }
+
+        return result;
+    };
+
+    const result = useApiQuery({ ...queryOptions, queryKey, queryFn: fetchPages });
+    const { data } = result;
+
+    const nextPageParam = data?.pages.length
+        ? getNextPageParam(data.pages[data.pages.length - 1], data.pages)
+        : undefined;
+    const hasNextPage = nextPageParam !== undefined && nextPageParam !== null;
+
+    const fetchNextPage = useCallback(async () => {
+        if (!data || !hasNextPage || isFetchingNextPage) {
+            return;
+        }
+
+        setIsFetchingNextPage(true);
+        try {
+            // 같은 키의 재검증이 진행 중이면 fetchQuery가 그 요청을 공유하므로, 끝난 뒤 새 결과에 이어서 요청
+            await queryClient.waitForFetch(queryKey);
+
+            const current = queryClient.getQueryData<InfiniteData<TPage, TPageParam>>(queryKey);
+            const pageParam = current?.pages.length
+                ? getNextPageParam(current.pages[current.pages.length - 1], current.pages)
+                : undefined;
+
+            if (!current || pageParam === undefined || pageParam === null) {
+                return;
+            }
+
+            await queryClient.fetchQuery(
+                queryKey,
+                async ({ signal }) => {
+                    const page = await queryFn({ pageParam, signal });
+                    return { pages: [...current.pages, page], pageParams: [...current.pageParams, pageParam] };
+                },
+                { force: true, transient: true }
+            );
+        } catch {
+            // 에러는 쿼리 상태(error)로 전달됨
+        } finally {
+            setIsFetchingNextPage(false);
+        }
+    }, [data, hasNextPage, isFetchingNextPage, queryKey, queryFn, getNextPageParam]);
+
+    return { ...result, hasNextPage, isFetchingNextPage, fetchNextPage };
+}
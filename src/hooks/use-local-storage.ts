@@ -19,6 +19,9 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { logger } from '@/lib/logger';
+
+const log = logger.child('useLocalStorage');
 
 /**
  * 로컬 스토리지 상태 관리 훅
@@ -52,7 +55,7 @@ export function useLocalStorage<T>(
 
             return initialValue;
         } catch (error) {
-            console.warn(`[useLocalStorage] "${key}" 읽기 실패:`, error);
+            log.warn('읽기 실패', { key, error });
             return initialValue;
         }
     }, [key, initialValue]);
@@ -94,7 +97,7 @@ export function useLocalStorage<T>(
                     );
                 }
             } catch (error) {
-                console.warn(`[useLocalStorage] "${key}" 저장 실패:`, error);
+                log.warn('저장 실패', { key, error });
             }
         },
         [key, storedValue]
@@ -111,7 +114,7 @@ export function useLocalStorage<T>(
                 window.localStorage.removeItem(key);
             }
         } catch (error) {
-            console.warn(`[useLocalStorage] "${key}" 제거 실패:`, error);
+            log.warn('제거 실패', { key, error });
         }
     }, [key, initialValue]);
 
@@ -0,0 +1,65 @@
+/**
+ * @file 오프라인 큐 훅
+ * @description 오프라인 변경 요청 큐의 상태를 구독하는 훅
+ *
+ * 마운트 시 큐를 시작하여 IndexedDB에 저장된 요청을 불러오고, 온라인이면 재전송합니다.
+ *
+ * @example
+ * const { pending, isOnline, replay } = useOfflineQueue();
+ *
+ * {pending > 0 && <span>{pending}개 변경 대기 중</span>}
+ */
+
+'use client';
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { offlineQueue, type OfflineQueue, type QueuedMutation } from '@/lib/api';
+
+/**
+ * useOfflineQueue 반환값
+ */
+export interface UseOfflineQueueResult {
+    /** 대기 중인 요청 (전송 순서) */
+    entries: readonly QueuedMutation[];
+    /** 대기 중인 요청 수 */
+    pending: number;
+    /** 재전송 진행 중 여부 */
+    isReplaying: boolean;
+    /** 브라우저 온라인 여부 */
+    isOnline: boolean;
+    /** 인증 만료로 재전송이 멈춤 (다시 로그인하면 자동 재개) */
+    isAuthRequired: boolean;
+    /** 즉시 재전송 */
+    replay: () => Promise<void>;
+    /** 대기 중인 요청 취소 */
+    remove: (id: string) => Promise<void>;
+}
+
+/**
+ * 오프라인 큐 훅
+ *
+ * @param queue - 구독할 큐 (기본: offlineQueue)
+ * @returns 큐 상태와 제어 함수
+ */
+export function useOfflineQueue(queue: OfflineQueue = offlineQueue): UseOfflineQueueResult {
+    const subscribe = useCallback((listener: () => void) => queue.subscribe(listener), [queue]);
+    const getSnapshot = useCallback(() => queue.getState(), [queue]);
+    const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+    useEffect(() => {
+        void queue.start();
+    }, [queue]);
+
+    const replay = useCallback(() => queue.replay(), [queue]);
+    const remove = useCallback((id: string) => queue.remove(id), [queue]);
+
+    return {
+        entries: state.entries,
+        pending: state.entries.length,
+        isReplaying: state.isReplaying,
+        isOnline: state.isOnline,
+        isAuthRequired: state.isAuthRequired,
+        replay,
+        remove,
+    };
+}
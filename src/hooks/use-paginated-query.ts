@@ -0,0 +1,49 @@
+/**
+ * @file 페이지 목록 쿼리 훅
+ * @description 페이지 번호 기반 목록 조회 훅 (다음 페이지를 불러오는 동안 이전 페이지 유지)
+ *
+ * page, limit, sortBy, sortOrder는 모두 쿼리 키에 포함되므로
+ * 정렬을 바꾸면 별도 캐시로 조회됩니다.
+ *
+ * @example
+ * const [page, setPage] = useState(1);
+ * const { data, isPlaceholderData, hasNextPage, hasPreviousPage } = usePaginatedQuery(
+ *   endpointQuery(ENDPOINTS.USERS.LIST, { query: { page, limit: 20, sortBy: 'name', sortOrder: 'asc' } })
+ * );
+ *
+ * <Button disabled={!hasNextPage || isPlaceholderData} onClick={() => setPage(page + 1)}>다음</Button>
+ */
+
+'use client';
+
+import type { PaginatedResponse } from '@/lib/api';
+import { useApiQuery, type UseApiQueryOptions, type UseApiQueryResult } from './use-api-query';
+
+/**
+ * usePaginatedQuery 반환값
+ */
+export interface UsePaginatedQueryResult<T> extends UseApiQueryResult<PaginatedResponse<T>> {
+    /** 다음 페이지 존재 여부 */
+    hasNextPage: boolean;
+    /** 이전 페이지 존재 여부 */
+    hasPreviousPage: boolean;
+}
+
+/**
+ * 페이지 목록 쿼리 훅
+ *
+ * @param options - useApiQuery 옵션 (keepPreviousData는 항상 활성화)
+ * @returns 쿼리 상태와 페이지 이동 가능 여부
+ */
+export function usePaginatedQuery<T>(
+    options: Omit<UseApiQueryOptions<PaginatedResponse<T>>, 'keepPreviousData'>
+): UsePaginatedQueryResult<T> {
+    const result = useApiQuery({ ...options, keepPreviousData: true });
+    const { data } = result;
+
+    return {
+        ...result,
+        hasNextPage: data !== undefined && data.page < data.totalPages,
+        hasPreviousPage: data !== undefined && data.page > 1,
+    };
+}
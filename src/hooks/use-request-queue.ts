@@ -0,0 +1,57 @@
+/**
+ * @file 요청 대기열 훅
+ * @description ApiClient 속도 제한 대기열의 상태(대기/전송 중인 요청 수, 429 일시 정지)를 구독하는 훅
+ *
+ * @example
+ * const { queued, isPaused } = useRequestQueue();
+ *
+ * {queued > 0 && <span>{queued}개 요청 대기 중{isPaused && ' (서버 요청 제한으로 일시 정지)'}</span>}
+ */
+
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { apiClient, type ApiClient, type HostQueueState, type RateLimiterState } from '@/lib/api';
+
+/**
+ * useRequestQueue 반환값
+ */
+export interface UseRequestQueueResult {
+    /** 전송 중인 요청 수 */
+    active: number;
+    /** 대기 중인 요청 수 */
+    queued: number;
+    /** 429 응답으로 일시 정지된 호스트가 있는지 여부 */
+    isPaused: boolean;
+    /** 호스트별 상태 */
+    hosts: Readonly<Record<string, HostQueueState>>;
+}
+
+/**
+ * 속도 제한이 비활성화된 클라이언트의 상태
+ */
+const EMPTY_STATE: RateLimiterState = { active: 0, queued: 0, hosts: {} };
+
+/**
+ * 요청 대기열 훅
+ *
+ * @param client - 구독할 클라이언트 (기본: apiClient)
+ * @returns 대기열 상태
+ */
+export function useRequestQueue(client: ApiClient = apiClient): UseRequestQueueResult {
+    const limiter = client.rateLimiter;
+
+    const subscribe = useCallback(
+        (listener: () => void) => limiter?.subscribe(listener) ?? (() => undefined),
+        [limiter]
+    );
+    const getSnapshot = useCallback(() => limiter?.getState() ?? EMPTY_STATE, [limiter]);
+    const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+    return {
+        active: state.active,
+        queued: state.queued,
+        isPaused: Object.values(state.hosts).some((host) => host.pausedUntil !== null),
+        hosts: state.hosts,
+    };
+}
@@ -0,0 +1,92 @@
+/**
+ * @file 실시간 구독 훅
+ * @description realtimeClient로 WebSocket 토픽을 구독하는 훅
+ *
+ * 특징:
+ * - 마지막 메시지와 연결 상태 제공
+ * - 같은 토픽을 여러 컴포넌트가 구독해도 서버 구독은 한 번만 (참조 카운트)
+ * - 언마운트 또는 topic 변경 시 자동 구독 해제
+ * - 재연결 후 구독 자동 복원
+ *
+ * @example
+ * const { lastMessage, status } = useSubscription<OrderEvent>(`orders:${orderId}`, {
+ *   onMessage: () => queryClient.invalidateQueries(['orders', orderId]),
+ * });
+ *
+ * {status === 'reconnecting' && <Badge variant="outline">재연결 중...</Badge>}
+ *
+ * // 테스트: 목 서버를 주입한 클라이언트 사용
+ * const server = new MockRealtimeServer();
+ * const client = new RealtimeClient({ url: 'ws://test/ws', WebSocket: server.WebSocket });
+ * useSubscription('orders', { client });
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { realtimeClient, type RealtimeClient, type RealtimeStatus } from '@/lib/realtime';
+
+/**
+ * useSubscription 옵션
+ */
+export interface UseSubscriptionOptions<T> {
+    /** false이면 구독하지 않음 (기본: true) */
+    enabled?: boolean;
+    /** 메시지 수신 콜백 */
+    onMessage?: (data: T, topic: string) => void;
+    /** 사용할 실시간 클라이언트 (기본: realtimeClient) */
+    client?: RealtimeClient;
+}
+
+/**
+ * useSubscription 반환값
+ */
+export interface UseSubscriptionResult<T> {
+    /** 마지막으로 받은 메시지 */
+    lastMessage: T | undefined;
+    /** 연결 상태 */
+    status: RealtimeStatus;
+}
+
+/**
+ * 실시간 구독 훅
+ *
+ * @param topic - 구독할 토픽 (null이면 구독하지 않음)
+ * @param options - 구독 옵션
+ * @returns 마지막 메시지와 연결 상태
+ */
+export function useSubscription<T = unknown>(
+    topic: string | null,
+    options: UseSubscriptionOptions<T> = {}
+): UseSubscriptionResult<T> {
+    const { enabled = true, client = realtimeClient } = options;
+    const [lastMessage, setLastMessage] = useState<T>();
+    const [status, setStatus] = useState<RealtimeStatus>(() => client.getStatus());
+
+    // 최신 콜백 참조 (인라인 콜백으로 인한 재구독 방지)
+    const onMessageRef = useRef(options.onMessage);
+    useEffect(() => {
+        onMessageRef.current = options.onMessage;
+    });
+
+    useEffect(() => {
+        setStatus(client.getStatus());
+        return client.on('status', ({ status: next }) => setStatus(next));
+    }, [client]);
+
+    useEffect(() => {
+        if (!topic || !enabled) {
+            return;
+        }
+
+        setLastMessage(undefined);
+
+        // 클린업: 구독 해제
+        return client.subscribe<T>(topic, (data, from) => {
+            setLastMessage(data);
+            onMessageRef.current?.(data, from);
+        });
+    }, [client, topic, enabled]);
+
+    return { lastMessage, status };
+}
@@ -0,0 +1,356 @@
+/**
+ * @file API 인증 모듈
+ * @description ApiClient 인스턴스 간에 공유할 수 있는 토큰 저장소와 요청 인증 전략
+ *
+ * - TokenSource: 액세스 토큰 보관, 변경 알림, 토큰 갱신 single-flight
+ * - AuthStrategy: 요청 헤더에 인증 정보를 적용하는 방식 (Bearer, API 키, 쿠키 세션 + CSRF, 없음)
+ *
+ * @example
+ * // 메인 API와 파일 서비스가 같은 토큰 사용
+ * const files = createApiClient({
+ *   baseUrl: 'https://files.example.com',
+ *   tokenSource: apiClient.tokenSource,
+ *   // 401이면 메인 API로 토큰 갱신
+ *   authRefresh: { refresh: () => apiClient.refreshAuthToken() },
+ * });
+ *
+ * // API 키로 인증하는 외부 서비스
+ * const search = createApiClient({
+ *   baseUrl: 'https://search.example.com',
+ *   auth: apiKeyAuth(process.env.NEXT_PUBLIC_SEARCH_KEY!, 'X-Search-Key'),
+ * });
+ *
+ * // 쿠키 세션 (credentials: 'include') + CSRF 토큰
+ * const admin = createApiClient({
+ *   baseUrl: 'https://admin.example.com/api',
+ *   auth: cookieSessionAuth({ tokenEndpoint: '/auth/csrf' }),
+ * });
+ */
+
+import { HttpError, isHttpError } from './errors';
+
+/**
+ * 토큰 변경 리스너
+ */
+export type TokenListener = (token: string | null) => void;
+
+/**
+ * 토큰 저장소
+ * 여러 ApiClient가 같은 인스턴스를 공유하면 토큰 설정/갱신이 모두에 반영됨
+ */
+export class TokenSource {
+    /** 현재 토큰 */
+    private token: string | null;
+
+    /** 토큰 변경 리스너 */
+    private listeners = new Set<TokenListener>();
+
+    /**
+     * 진행 중인 토큰 갱신 Promise
+     * 공유 중인 클라이언트들이 동시에 갱신을 요청해도 한 번만 실행 (single-flight)
+     */
+    private refreshPromise: Promise<string> | null = null;
+
+    constructor(initialToken: string | null = null) {
+        this.token = initialToken;
+    }
+
+    /**
+     * 현재 토큰 조회
+     */
+    get(): string | null {
+        return this.token;
+    }
+
+    /**
+     * 토큰 설정 (값이 바뀐 경우에만 리스너 호출)
+     */
+    set(token: string | null): void {
+        if (token === this.token) {
+            return;
+        }
+
+        this.token = token;
+        this.listeners.forEach((listener) => listener(token));
+    }
+
+    /**
+     * 토큰 변경 구독
+     * @returns 구독 해제 함수
+     */
+    subscribe(listener: TokenListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * 토큰 갱신
+     * 이미 갱신 중이면 진행 중인 결과를 함께 기다리며, 실패하면 토큰을 폐기
+     *
+     * @param refresher - 새 토큰을 받아오는 함수
+     * @returns 새 토큰
+     */
+    refresh(refresher: () => Promise<string>): Promise<string> {
+        if (!this.refreshPromise) {
+            this.refreshPromise = refresher()
+                .then((token) => {
+                    this.set(token);
+                    return token;
+                })
+                .catch((error: unknown) => {
+                    this.set(null);
+                    throw error;
+                })
+                .finally(() => {
+                    this.refreshPromise = null;
+                });
+        }
+
+        return this.refreshPromise;
+    }
+}
+
+/**
+ * 인증 대상 요청 정보
+ */
+export interface AuthRequestInfo {
+    /** HTTP 메서드 */
+    method: string;
+    /** 요청 URL (쿼리 파라미터 포함) */
+    url: string;
+}
+
+/**
+ * 인증 전략이 사용할 클라이언트 정보 (CSRF 토큰 발급 요청 등)
+ */
+export interface AuthContext {
+    /** 클라이언트 기본 URL */
+    baseUrl: string;
+    /** 클라이언트의 요청 전송 함수 (목 백엔드 등으로 교체된 경우 포함) */
+    fetch: typeof fetch;
+}
+
+/**
+ * 요청 인증 전략
+ */
+export interface AuthStrategy {
+    /**
+     * fetch credentials 모드 (쿠키 세션은 'include', 기본: 브라우저 기본값)
+     */
+    credentials?: RequestCredentials;
+
+    /**
+     * 요청 전 비동기 준비 (CSRF 토큰 발급 등)
+     * authorize() 직전에 요청마다 호출됨
+     */
+    prepare?(request: AuthRequestInfo, context: AuthContext): Promise<void>;
+
+    /**
+     * 요청 헤더에 인증 정보 적용
+     * @returns 인증 헤더가 추가된 새 헤더 객체
+     */
+    authorize(headers: Record<string, string>, request: AuthRequestInfo): Record<string, string>;
+
+    /**
+     * 실패한 요청의 인증 정보 복구 (CSRF 토큰 거부 시 재발급 등)
+     * true를 반환하면 ApiClient가 요청을 한 번 다시 보냄
+     */
+    recover?(error: unknown, context: AuthContext): Promise<boolean>;
+}
+
+/**
+ * Bearer 토큰 인증 (기본 전략)
+ * 토큰이 있으면 `Authorization: Bearer <token>` 헤더 추가
+ */
+export function bearerAuth(tokenSource: TokenSource): AuthStrategy {
+    return {
+        authorize: (headers) => {
+            const token = tokenSource.get();
+            return token ? { ...headers, Authorization: `Bearer ${token}` } : headers;
+        },
+    };
+}
+
+/**
+ * API 키 인증
+ *
+ * @param key - API 키
+ * @param headerName - 키를 전달할 헤더 이름 (기본: 'X-API-Key')
+ */
+export function apiKeyAuth(key: string, headerName: string = 'X-API-Key'): AuthStrategy {
+    return {
+        authorize: (headers) => ({ ...headers, [headerName]: key }),
+    };
+}
+
+/**
+ * 인증 정보를 보내지 않는 전략 (공개 API)
+ */
+export const noAuth: AuthStrategy = {
+    authorize: (headers) => headers,
+};
+
+/**
+ * 쿠키 세션 인증 설정
+ */
+export interface CookieSessionOptions {
+    /** CSRF 토큰 쿠키 이름 (double-submit 쿠키, 기본: 'XSRF-TOKEN') */
+    cookieName: string;
+    /** CSRF 토큰을 담을 요청 헤더 이름 (기본: 'X-XSRF-TOKEN') */
+    headerName: string;
+    /**
+     * CSRF 토큰 발급 엔드포인트 (기본: 없음)
+     * '/'로 시작하면 클라이언트 기본 URL 기준, 쿠키에 토큰이 없을 때 GET으로 호출
+     * 응답 헤더(headerName), 본문의 tokenField, 응답이 설정한 쿠키 순으로 토큰을 찾음
+     */
+    tokenEndpoint?: string;
+    /** 발급 응답 본문에서 토큰을 읽을 필드 이름 (기본: 'csrfToken') */
+    tokenField: string;
+    /** CSRF 토큰을 보낼 메서드 (기본: POST, PUT, PATCH, DELETE) */
+    methods: string[];
+    /**
+     * 서버가 CSRF 토큰을 거부한 응답인지 판단
+     * 기본: 419, 또는 에러 코드에 'CSRF'가 포함된 403
+     */
+    isRejection: (error: unknown) => boolean;
+    /**
+     * 쿠키 값 조회 함수 (기본: 브라우저 document.cookie)
+     * 서버에서는 수신 요청의 쿠키를 읽도록 지정 (createServerApiClient 참고)
+     */
+    getCookie: (name: string) => string | null;
+}
+
+/**
+ * 기본 CSRF 토큰 거부 판단
+ */
+function isCsrfRejection(error: unknown): boolean {
+    return isHttpError(error, 419) || (isHttpError(error, 403) && /csrf/i.test(error.code ?? ''));
+}
+
+/**
+ * 브라우저 쿠키 값 조회 (서버나 쿠키가 없으면 null)
+ */
+function readCookie(name: string): string | null {
+    if (typeof document === 'undefined') {
+        return null;
+    }
+
+    const prefix = `${name}=`;
+    const cookie = document.cookie.split('; ').find((item) => item.startsWith(prefix));
+
+    return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+}
+
+/**
+ * 기본 쿠키 세션 인증 설정
+ */
+export const DEFAULT_COOKIE_SESSION_OPTIONS: CookieSessionOptions = {
+    cookieName: 'XSRF-TOKEN',
+    headerName: 'X-XSRF-TOKEN',
+    tokenField: 'csrfToken',
+    methods: ['POST', 'PUT', 'PATCH', 'DELETE'],
+    isRejection: isCsrfRejection,
+    getCookie: readCookie,
+};
+
+/**
+ * 쿠키 세션 인증
+ * 세션 쿠키를 함께 보내고(credentials: 'include'), 변경 요청에 CSRF 토큰 헤더를 추가
+ *
+ * - double-submit 쿠키: 서버가 내려준 cookieName 쿠키 값을 headerName 헤더로 전송
+ * - 발급 엔드포인트: 쿠키를 읽을 수 없으면(다른 도메인, HttpOnly 등) tokenEndpoint에서 토큰을 받아 보관
+ * - 서버가 토큰을 거부하면(isRejection) 토큰을 다시 받은 뒤 요청을 한 번 재시도 (거부된 토큰과 같으면 재시도하지 않음)
+ *
+ * 다른 출처의 API는 CORS 응답에 Access-Control-Allow-Credentials: true와
+ * 허용 헤더(Access-Control-Allow-Headers)에 headerName이 포함되어야 함
+ *
+ * @param options - 기본 설정을 부분적으로 덮어쓸 설정
+ */
+export function cookieSessionAuth(options: Partial<CookieSessionOptions> = {}): AuthStrategy {
+    const { cookieName, headerName, tokenEndpoint, tokenField, methods, isRejection, getCookie } = {
+        ...DEFAULT_COOKIE_SESSION_OPTIONS,
+        ...options,
+    };
+
+    /** 발급 엔드포인트에서 받은 토큰 */
+    let token: string | null = null;
+
+    /** 토큰을 받았을 때의 쿠키 값 (이후 서버가 쿠키를 교체했는지 판단) */
+    let cookieAtFetch: string | null = null;
+
+    /** 진행 중인 토큰 발급 Promise (동시에 요청해도 한 번만 발급) */
+    let tokenPromise: Promise<void> | null = null;
+
+    const fetchToken = (endpoint: string, context: AuthContext): Promise<void> => {
+        tokenPromise ??= (async () => {
+            const url = endpoint.startsWith('/') ? `${context.baseUrl}${endpoint}` : endpoint;
+            const response = await context.fetch(url, { method: 'GET', credentials: 'include' });
+            const body: unknown = await response.json().catch(() => null);
+
+            if (!response.ok) {
+                throw new HttpError({ status: response.status, body, headers: response.headers, method: 'GET', url });
+            }
+
+            const field = body && typeof body === 'object' ? (body as Record<string, unknown>)[tokenField] : null;
+            const bodyToken = typeof field === 'string' ? field : null;
+
+            token = response.headers.get(headerName) ?? bodyToken ?? getCookie(cookieName);
+            cookieAtFetch = getCookie(cookieName);
+        })().finally(() => {
+            tokenPromise = null;
+        });
+
+        return tokenPromise;
+    };
+
+    /**
+     * 요청에 보낼 토큰
+     * 발급받은 토큰이 가장 최근 값이며, 발급 이후 서버가 쿠키를 교체했다면 쿠키 값을 사용
+     */
+    const currentToken = (): string | null => {
+        const cookie = getCookie(cookieName);
+        return token && cookie === cookieAtFetch ? token : (cookie ?? token);
+    };
+
+    return {
+        credentials: 'include',
+
+        prepare: async ({ method }, context) => {
+            if (!tokenEndpoint || !methods.includes(method) || currentToken()) {
+                return;
+            }
+
+            await fetchToken(tokenEndpoint, context);
+        },
+
+        authorize: (headers, { method }) => {
+            if (!methods.includes(method)) {
+                return headers;
+            }
+
+            const csrfToken = currentToken();
+            return csrfToken ? { ...headers, [headerName]: csrfToken } : headers;
+        },
+
+        recover: async (error, context) => {
+            if (!isRejection(error)) {
+                return false;
+            }
+
+            // 동시에 보낸 다른 요청과 섞이지 않도록 실패한 요청 자신이 보낸 토큰과 비교
+            const rejected = isHttpError(error) ? error.requestHeaders.get(headerName) : null;
+
+            // 발급 엔드포인트가 있으면 다시 발급, 없으면 거부 응답과 함께 내려온 새 쿠키를 사용
+            if (tokenEndpoint) {
+                token = null;
+                await fetchToken(tokenEndpoint, context);
+            }
+
+            // 거부된 토큰과 같은 토큰이면 다시 보내도 같은 결과이므로 재시도하지 않음
+            const next = currentToken();
+            return next !== null && next !== rejected;
+        },
+    };
+}
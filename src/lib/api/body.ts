@@ -0,0 +1,127 @@
+/**
+ * @file 요청 본문 직렬화
+ * @description 요청 본문 타입을 감지하여 fetch에 전달할 본문과 Content-Type 헤더를 결정
+ *
+ * | 본문 타입                         | 전송 방식        | Content-Type                               |
+ * | --------------------------------- | ---------------- | ------------------------------------------ |
+ * | FormData                          | 그대로           | 제거 (브라우저가 boundary 포함하여 설정)   |
+ * | URLSearchParams                   | 그대로           | application/x-www-form-urlencoded          |
+ * | Blob / File                       | 그대로           | Blob.type (없으면 application/octet-stream) |
+ * | ArrayBuffer / TypedArray          | 그대로           | application/octet-stream                   |
+ * | ReadableStream                    | 그대로           | application/octet-stream                   |
+ * | 문자열 (JSON이 아닌 Content-Type) | 그대로           | 지정한 값 (text/plain, text/csv 등)        |
+ * | 그 외 (객체, 배열, 문자열 등)     | JSON.stringify   | application/json                           |
+ * | 없음 (undefined, null)            | -                | 제거                                       |
+ *
+ * 호출자가 Content-Type을 직접 지정한 경우 FormData를 제외하고 그 값을 유지합니다.
+ */
+
+/**
+ * 직렬화된 요청 본문
+ */
+export interface SerializedBody {
+    /** fetch에 전달할 본문 */
+    body: BodyInit | undefined;
+    /** Content-Type이 반영된 요청 헤더 */
+    headers: Record<string, string>;
+}
+
+const CONTENT_TYPE = 'Content-Type';
+const OCTET_STREAM = 'application/octet-stream';
+
+/**
+ * 헤더 이름으로 값 조회 (대소문자 무시)
+ */
+export function findHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find((k) => k.toLowerCase() === name.toLowerCase());
+    return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * 헤더 설정 (같은 이름의 기존 헤더는 대소문자와 관계없이 교체, value가 undefined면 제거)
+ */
+export function setHeader(
+    headers: Record<string, string>,
+    name: string,
+    value: string | undefined
+): Record<string, string> {
+    const result = Object.fromEntries(
+        Object.entries(headers).filter(([key]) => key.toLowerCase() !== name.toLowerCase())
+    );
+
+    if (value !== undefined) {
+        result[name] = value;
+    }
+
+    return result;
+}
+
+/**
+ * 그대로 전송해야 하는 바이너리 본문인지 확인
+ */
+function isBinaryBody(body: unknown): body is ArrayBuffer | ArrayBufferView | ReadableStream {
+    return (
+        body instanceof ArrayBuffer ||
+        ArrayBuffer.isView(body) ||
+        (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream)
+    );
+}
+
+/**
+ * 요청 본문 직렬화
+ *
+ * @param body - 요청 본문 (undefined, null이면 본문 없음)
+ * @param headers - 요청 헤더 (기본 헤더 + 호출자 헤더)
+ * @param explicitContentType - 호출자가 직접 지정한 Content-Type
+ */
+export function serializeBody(
+    body: unknown,
+    headers: Record<string, string>,
+    explicitContentType?: string
+): SerializedBody {
+    // 본문이 없으면 기본 Content-Type(application/json)을 보내지 않음
+    if (body === undefined || body === null) {
+        return { body: undefined, headers: setHeader(headers, CONTENT_TYPE, explicitContentType) };
+    }
+
+    // boundary가 포함된 Content-Type은 브라우저가 설정해야 함
+    if (typeof FormData !== 'undefined' && body instanceof FormData) {
+        return { body, headers: setHeader(headers, CONTENT_TYPE, undefined) };
+    }
+
+    if (body instanceof URLSearchParams) {
+        return {
+            body,
+            headers: setHeader(
+                headers,
+                CONTENT_TYPE,
+                explicitContentType ?? 'application/x-www-form-urlencoded;charset=UTF-8'
+            ),
+        };
+    }
+
+    if (typeof Blob !== 'undefined' && body instanceof Blob) {
+        return {
+            body,
+            headers: setHeader(headers, CONTENT_TYPE, explicitContentType ?? (body.type || OCTET_STREAM)),
+        };
+    }
+
+    if (isBinaryBody(body)) {
+        return {
+            body: body as BodyInit,
+            headers: setHeader(headers, CONTENT_TYPE, explicitContentType ?? OCTET_STREAM),
+        };
+    }
+
+    // JSON이 아닌 Content-Type의 문자열은 따옴표로 감싸지 않고 그대로 전송
+    const contentType = explicitContentType ?? findHeader(headers, CONTENT_TYPE);
+    if (typeof body === 'string' && contentType && !/[/+]json\b/i.test(contentType)) {
+        return { body, headers: setHeader(headers, CONTENT_TYPE, contentType) };
+    }
+
+    return {
+        body: JSON.stringify(body),
+        headers: setHeader(headers, CONTENT_TYPE, explicitContentType ?? 'application/json'),
+    };
+}
@@ -0,0 +1,110 @@
+/**
+ * @file 타입 안전한 엔드포인트 호출
+ * @description ENDPOINTS 정의로부터 경로 파라미터, 본문, 쿼리, 응답 타입을 추론하여 요청 실행
+ *
+ * @example
+ * // 응답 타입 자동 추론: User
+ * const user = await callEndpoint(ENDPOINTS.USERS.DETAIL, { params: { id } });
+ *
+ * // 본문 타입 검사: CreateUserRequest
+ * const created = await callEndpoint(ENDPOINTS.USERS.CREATE, {
+ *   body: { email: 'john@example.com', name: 'John' },
+ * });
+ *
+ * // 쿼리 파라미터 + 요청 옵션
+ * const page = await callEndpoint(ENDPOINTS.USERS.LIST, {
+ *   query: { page: 1, limit: 20 },
+ *   signal: controller.signal,
+ * });
+ *
+ * // 다른 클라이언트 인스턴스로 호출 (서버 컴포넌트 등)
+ * const me = await callEndpoint(ENDPOINTS.AUTH.ME, { client: await createServerApiClient() });
+ */
+
+import { apiClient, type ApiClient } from './client';
+import {
+    buildPath,
+    type EndpointBody,
+    type EndpointDefinition,
+    type EndpointParams,
+    type EndpointQuery,
+    type EndpointResponse,
+} from './define-endpoint';
+import type { QueryParams, RequestOptions } from './types';
+
+/**
+ * 경로 파라미터 옵션 (경로에 `:param`이 있을 때만 필수)
+ */
+type ParamsOption<E> = keyof EndpointParams<E> extends never
+    ? { params?: never }
+    : { params: EndpointParams<E> };
+
+/**
+ * 요청 본문 옵션 (정의에 body 타입이 있을 때만 필수)
+ */
+type BodyOption<E> = [EndpointBody<E>] extends [never] ? { body?: never } : { body: EndpointBody<E> };
+
+/**
+ * 쿼리 파라미터 옵션 (정의에 query 타입이 있을 때만 허용)
+ */
+type QueryOption<E> = [EndpointQuery<E>] extends [never]
+    ? { query?: never }
+    : { query?: EndpointQuery<E> };
+
+/**
+ * callEndpoint 옵션
+ * RequestOptions의 params는 경로 파라미터로 대체되고, 쿼리는 query로 전달
+ */
+export type CallEndpointOptions<E> = Omit<RequestOptions<EndpointResponse<E>>, 'params'> & {
+    /** 요청을 보낼 클라이언트 (기본: apiClient) */
+    client?: ApiClient;
+} & ParamsOption<E> &
+    BodyOption<E> &
+    QueryOption<E>;
+
+/**
+ * 옵션 인자 튜플 (필수 필드가 없으면 생략 가능)
+ */
+export type CallEndpointArgs<E> = object extends CallEndpointOptions<E>
+    ? [options?: CallEndpointOptions<E>]
+    : [options: CallEndpointOptions<E>];
+
+/**
+ * 엔드포인트 정의로 요청 실행
+ *
+ * @param endpoint - ENDPOINTS에 정의된 엔드포인트
+ * @param options - 경로 파라미터, 본문, 쿼리 및 요청 옵션
+ * @returns 정의에 선언된 응답 타입 (엔드포인트에 schema가 있으면 검증된 값)
+ */
+export function callEndpoint<E extends EndpointDefinition>(
+    endpoint: E,
+    ...[options]: CallEndpointArgs<E>
+): Promise<EndpointResponse<E>> {
+    const { params, body, query, client = apiClient, ...requestOptions } = (options ?? {}) as CallEndpointOptions<EndpointDefinition> & {
+        params?: Record<string, string | number>;
+        body?: unknown;
+        query?: object;
+    };
+
+    const path = buildPath(endpoint.path, params);
+    const requestInit: RequestOptions<EndpointResponse<E>> = {
+        ...requestOptions,
+        params: query as QueryParams | undefined,
+        // 요청별 스키마가 없으면 엔드포인트에 정의된 스키마 사용
+        schema: (requestOptions.schema ?? endpoint.schema) as RequestOptions<EndpointResponse<E>>['schema'],
+        httpCache: requestOptions.httpCache ?? endpoint.httpCache,
+    };
+
+    switch (endpoint.method) {
+        case 'GET':
+            return client.get(path, requestInit);
+        case 'POST':
+            return client.post(path, body, requestInit);
+        case 'PUT':
+            return client.put(path, body, requestInit);
+        case 'PATCH':
+            return client.patch(path, body, requestInit);
+        case 'DELETE':
+            return client.delete(path, requestInit);
+    }
+}
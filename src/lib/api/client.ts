@@ -7,6 +7,19 @@
  * - 인터셉터 패턴을 통한 요청/응답 전처리
  * - 표준화된 에러 핸들링
  * - 인증 토큰 자동 주입
+ * - 401 응답 시 토큰 자동 갱신 및 요청 재시도
+ * - 요청별 타임아웃 및 AbortSignal 취소
+ * - 일시적 장애에 대한 지수 백오프 재시도
+ * - 응답 스키마 런타임 검증
+ * - FormData/Blob/URLSearchParams 등 비 JSON 본문 및 text/blob/stream 응답
+ * - Content-Disposition 파일명을 포함한 파일 다운로드
+ * - 업로드/다운로드 진행률 (onProgress)
+ * - Server-Sent Events / NDJSON 스트리밍 (stream)
+ * - 서비스별 인스턴스 생성 (createApiClient) 및 토큰 저장소 공유
+ * - ETag/Last-Modified 조건부 요청 캐시 (httpCache, 304 응답을 캐시된 본문으로 대체)
+ * - 비멱등 요청의 Idempotency-Key 자동 생성 및 동일 변경 요청 중복 전송 방지
+ * - traceparent/X-Request-Id 헤더 전파 및 요청별 타이밍 측정 ('metrics' 이벤트)
+ * - 호스트별 동시 요청 수/속도 제한, 우선순위 대기열, 429 응답 시 대기열 일시 정지
  *
  * @example
  * // 기본 사용법
@@ -14,43 +27,472 @@
  *
  * // POST 요청
  * const newUser = await apiClient.post<User>('/users', { name: 'John' });
+ *
+ * // 요청 옵션 (쿼리 파라미터, 취소, 타임아웃)
+ * const page = await apiClient.get<User[]>('/users', {
+ *   params: { page: 1 },
+ *   signal: controller.signal,
+ *   timeoutMs: 5000,
+ * });
+ *
+ * // 파일 업로드 (Content-Type은 자동 설정)
+ * const formData = new FormData();
+ * formData.append('file', file);
+ * await apiClient.post('/files', formData);
+ *
+ * // CSV 다운로드
+ * const { blob, filename } = await apiClient.download('/reports/export');
+ * saveFile(blob, filename ?? 'report.csv');
+ *
+ * // 인터셉터 추가
+ * apiClient.interceptors.request.use((config) => ({
+ *   ...config,
+ *   headers: { ...config.headers, 'X-Trace-Id': createTraceId() },
+ * }));
+ *
+ * // 다른 백엔드용 인스턴스 (메인 API와 토큰 공유)
+ * const billing = createApiClient({
+ *   baseUrl: 'https://billing.example.com/v1',
+ *   tokenSource: apiClient.tokenSource,
+ *   retry: false,
+ * });
+ */
+
+import { config } from '@/config';
+import { logger } from '@/lib/logger';
+import { TokenSource, bearerAuth, cookieSessionAuth, type AuthContext, type AuthStrategy } from './auth';
+import { findHeader, serializeBody, setHeader } from './body';
+import { parseContentDisposition, type DownloadResult } from './download';
+import { HttpCache, createHttpCacheKey, type HttpCacheEntry, type HttpCacheOptions } from './http-cache';
+import { RateLimiter, type RateLimitOptions } from './rate-limiter';
+import {
+    DEFAULT_IDEMPOTENCY_OPTIONS,
+    getMutationLockKey,
+    resolveIdempotencyOptions,
+    type IdempotencyOptions,
+} from './idempotency';
+import { createProgress, getBodySize, trackDownloadProgress } from './progress';
+import {
+    DEFAULT_STREAM_RECONNECT,
+    parseNdjson,
+    parseSse,
+    parseStreamData,
+    type ServerSentEvent,
+    type StreamOptions,
+    type StreamReconnectOptions,
+} from './stream';
+import {
+    DEFAULT_TRACING_OPTIONS,
+    RequestTimer,
+    TRACEPARENT_HEADER,
+    createRequestId,
+    createSpanId,
+    createTraceId,
+    formatTraceparent,
+    getResponseSize,
+    type TracingOptions,
+} from './tracing';
+import { isXhrAvailable, isXhrBody, xhrFetch } from './xhr-transport';
+import { API_BASE_URL, DEFAULT_HEADERS, ENDPOINTS, withQueryParams } from './endpoints';
+import {
+    AbortError,
+    NetworkError,
+    REQUEST_ID_HEADER,
+    TimeoutError,
+    ValidationError,
+    isApiError,
+    isHttpError,
+} from './errors';
+import { EventEmitter, type ApiClientEvents, type EventListener } from './events';
+import {
+    DEFAULT_RETRY_POLICY,
+    getRetryDelay,
+    parseRetryAfter,
+    resolveRetryPolicy,
+    shouldRetry,
+    wait,
+    type RetryPolicy,
+} from './retry';
+import {
+    InterceptorManager,
+    apiErrorInterceptor,
+    requestLoggingInterceptor,
+    type ApiInterceptors,
+    type InterceptorFulfilled,
+    type InterceptorHandle,
+} from './interceptors';
+import type { ApiResponse, AuthTokenResponse, RequestConfig, RequestOptions } from './types';
+import type { QueryStringOptions } from './query-string';
+import type { ResponseSchema, ValidationMode } from './validation';
+
+const log = logger.child('api');
+
+/**
+ * 토큰 갱신 함수 타입
+ * 새 액세스 토큰을 반환하며, 실패 시 throw
+ */
+export type AuthRefreshHandler = (client: ApiClient) => Promise<string>;
+
+/**
+ * 토큰 자동 갱신 설정
+ */
+export interface AuthRefreshOptions {
+    /** 토큰 갱신 함수 */
+    refresh: AuthRefreshHandler;
+    /** 401이 발생해도 갱신을 시도하지 않는 엔드포인트 (로그인 실패 등) */
+    excludedEndpoints: string[];
+}
+
+/**
+ * 기본 토큰 갱신 함수
+ * ENDPOINTS.AUTH.REFRESH를 호출하여 새 액세스 토큰을 받아옴
  */
+const refreshWithEndpoint: AuthRefreshHandler = async (client) => {
+    const { accessToken } = await client.post<AuthTokenResponse>(ENDPOINTS.AUTH.REFRESH.path);
+    return accessToken;
+};
 
-import { API_BASE_URL, DEFAULT_HEADERS } from './endpoints';
-import type { ApiResponse, ApiError, RequestConfig } from './types';
+/**
+ * 기본 토큰 자동 갱신 설정
+ */
+const DEFAULT_AUTH_REFRESH_OPTIONS: AuthRefreshOptions = {
+    refresh: refreshWithEndpoint,
+    excludedEndpoints: [
+        ENDPOINTS.AUTH.LOGIN.path,
+        ENDPOINTS.AUTH.REGISTER.path,
+        ENDPOINTS.AUTH.REFRESH.path,
+    ],
+};
+
+/**
+ * 조건부 요청 캐시 옵션으로 HttpCache 인스턴스 생성
+ */
+function resolveHttpCache(option: HttpCache | HttpCacheOptions | boolean | undefined): HttpCache | null {
+    if (!option) return null;
+    if (option instanceof HttpCache) return option;
+    return new HttpCache(option === true ? {} : option);
+}
+
+/**
+ * 파일 다운로드 옵션
+ */
+export type DownloadOptions = Omit<RequestOptions<Blob>, 'responseType' | 'schema'> & {
+    /** HTTP 메서드 (기본: 'GET') */
+    method?: 'GET' | 'POST';
+    /** 요청 본문 (POST로 내보내기 조건을 전달하는 경우 등) */
+    body?: unknown;
+};
+
+/**
+ * ApiClient 생성 옵션
+ */
+export interface ApiClientOptions {
+    /** 기본 URL (기본: API_BASE_URL) */
+    baseUrl?: string;
+    /** 기본 헤더 (기본: DEFAULT_HEADERS) */
+    headers?: HeadersInit;
+    /** 토큰 저장소 (다른 인스턴스와 공유하면 토큰 설정/갱신이 함께 반영됨, 기본: 새 저장소) */
+    tokenSource?: TokenSource;
+    /** 요청 인증 전략 (기본: tokenSource의 Bearer 토큰) */
+    auth?: AuthStrategy;
+    /**
+     * 401 응답 시 토큰 자동 갱신 설정 (기본: 비활성화)
+     * 기본 인스턴스(apiClient)는 ENDPOINTS.AUTH.REFRESH로 갱신
+     */
+    authRefresh?: Partial<AuthRefreshOptions> | null;
+    /** 추가로 등록할 인터셉터 (기본 인터셉터 뒤에 등록 순서대로 실행) */
+    interceptors?: {
+        request?: InterceptorFulfilled<RequestConfig>[];
+        response?: InterceptorFulfilled<ApiResponse<unknown>>[];
+    };
+    /** 기본 인터셉터(개발 환경 로깅, HttpError 변환) 등록 여부 (기본: true) */
+    defaultInterceptors?: boolean;
+    /** 기본 요청 타임아웃 (밀리초, 0이면 무제한) */
+    timeoutMs?: number;
+    /** 재시도 정책 (기본 정책을 부분적으로 덮어씀, false면 재시도 안 함) */
+    retry?: Partial<RetryPolicy> | false;
+    /** 응답 스키마 검증 실패 처리 방식 (기본: 'throw') */
+    validation?: ValidationMode;
+    /** 요청 전송 함수 (기본: 전역 fetch, 목 백엔드 등으로 대체 가능) */
+    fetch?: typeof fetch;
+    /** 쿼리 파라미터 직렬화 기본 옵션 */
+    querySerialization?: Partial<QueryStringOptions>;
+    /**
+     * ETag/Last-Modified 조건부 요청 캐시 (기본: 비활성화)
+     * true면 기본 옵션으로 생성, 인스턴스를 전달하면 다른 클라이언트와 공유
+     * 서버에서 여러 사용자가 공유하는 인스턴스에는 사용하지 않음
+     */
+    httpCache?: HttpCache | HttpCacheOptions | boolean;
+    /**
+     * Idempotency-Key 자동 생성 및 중복 전송 방지 설정 (기본 설정을 부분적으로 덮어씀, false면 비활성화)
+     * 다른 출처의 API는 CORS 허용 헤더(Access-Control-Allow-Headers)에 키 헤더가 포함되어야 함
+     */
+    idempotency?: Partial<IdempotencyOptions> | false;
+    /**
+     * traceparent/요청 ID 헤더 설정 (기본 설정을 부분적으로 덮어씀, false면 헤더를 보내지 않음)
+     * 'metrics' 이벤트는 설정과 관계없이 발생
+     */
+    tracing?: Partial<TracingOptions> | false;
+    /**
+     * 호스트별 동시 요청 수/속도 제한 (기본 설정을 부분적으로 덮어씀, false면 비활성화)
+     * 인스턴스를 전달하면 다른 클라이언트와 대기열을 공유
+     * 기본값은 브라우저에서만 활성화 (서버에서는 여러 사용자의 요청이 한 대기열을 공유하지 않도록)
+     */
+    rateLimit?: RateLimiter | Partial<RateLimitOptions> | false;
+}
 
 /**
  * API 클라이언트 클래스
- * 싱글톤 패턴으로 구현되어 앱 전체에서 하나의 인스턴스만 사용
+ * 기본 인스턴스(apiClient) 외의 백엔드는 createApiClient()로 인스턴스를 만들어 사용
  */
-class ApiClient {
+export class ApiClient {
     /** 기본 URL */
     private baseUrl: string;
 
     /** 기본 헤더 */
     private defaultHeaders: HeadersInit;
 
-    /** 인증 토큰 저장 */
-    private authToken: string | null = null;
+    /** 기본 요청 타임아웃 (밀리초) */
+    private timeoutMs: number;
+
+    /** 재시도 정책 (null이면 재시도 안 함) */
+    private retryPolicy: RetryPolicy | null;
+
+    /** 응답 스키마 검증 실패 처리 방식 */
+    private validationMode: ValidationMode;
+
+    /** 요청 전송 함수 */
+    private fetchImpl: typeof fetch;
+
+    /** 쿼리 파라미터 직렬화 기본 옵션 */
+    private querySerialization: Partial<QueryStringOptions>;
+
+    /** 전역 fetch 대신 전달받은 전송 함수를 사용하는지 여부 (XHR 전송 계층 사용 판단) */
+    private hasCustomFetch: boolean;
+
+    /** 인증 토큰 저장소 (다른 인스턴스와 공유 가능) */
+    readonly tokenSource: TokenSource;
+
+    /** 요청 인증 전략 */
+    private auth: AuthStrategy;
+
+    /** 토큰 자동 갱신 설정 (null이면 비활성화) */
+    private authRefresh: AuthRefreshOptions | null;
+
+    /** 조건부 요청 캐시 (null이면 비활성화) */
+    private httpCache: HttpCache | null;
+
+    /** 멱등성 키 설정 (null이면 비활성화) */
+    private idempotency: IdempotencyOptions | null;
+
+    /** 요청 추적 헤더 설정 (null이면 헤더를 보내지 않음) */
+    private tracing: TracingOptions | null;
+
+    /**
+     * 요청 속도 제한기 (null이면 비활성화)
+     * getState()/subscribe()로 대기열 상태 확인
+     */
+    readonly rateLimiter: RateLimiter | null;
+
+    /** 진행 중인 변경 요청 (요청 식별 문자열 → 응답 Promise) */
+    private inFlightMutations = new Map<string, Promise<ApiResponse<unknown>>>();
+
+    /**
+     * 진행 중인 토큰 갱신 Promise
+     * 동시에 401을 받은 요청들이 하나의 갱신 결과를 공유 (single-flight)
+     * 토큰 저장소를 공유하는 인스턴스 간의 중복 갱신은 TokenSource가 막음
+     */
+    private refreshPromise: Promise<string> | null = null;
+
+    /** 클라이언트 이벤트 */
+    private events = new EventEmitter<ApiClientEvents>();
+
+    /**
+     * 요청/응답 인터셉터
+     * use()로 추가하고 반환된 핸들의 eject()로 제거
+     */
+    readonly interceptors: ApiInterceptors = {
+        request: new InterceptorManager(),
+        response: new InterceptorManager(),
+    };
+
+    /**
+     * 기본 인터셉터 핸들
+     * 기본 동작을 교체하려면 eject() 후 원하는 인터셉터를 등록
+     */
+    readonly defaultInterceptors: {
+        /** 개발 환경 요청 로깅 */
+        logging: InterceptorHandle | null;
+        /** 2xx 외 응답을 HttpError로 변환 */
+        apiError: InterceptorHandle | null;
+    };
+
+    constructor(options: ApiClientOptions = {}) {
+        this.baseUrl = options.baseUrl ?? API_BASE_URL;
+        this.defaultHeaders = options.headers ?? DEFAULT_HEADERS;
+        this.tokenSource = options.tokenSource ?? new TokenSource();
+        this.auth = options.auth ?? bearerAuth(this.tokenSource);
+        this.authRefresh = options.authRefresh ? { ...DEFAULT_AUTH_REFRESH_OPTIONS, ...options.authRefresh } : null;
+        this.timeoutMs = options.timeoutMs ?? 0;
+        this.retryPolicy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, options.retry);
+        this.validationMode = options.validation ?? 'throw';
+        // 전역 fetch는 호출 시점에 참조 (테스트 등에서 교체 가능하도록)
+        this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+        this.hasCustomFetch = options.fetch !== undefined;
+        this.querySerialization = options.querySerialization ?? {};
+        this.httpCache = resolveHttpCache(options.httpCache);
+        this.idempotency = resolveIdempotencyOptions(DEFAULT_IDEMPOTENCY_OPTIONS, options.idempotency);
+        this.tracing = options.tracing === false ? null : { ...DEFAULT_TRACING_OPTIONS, ...options.tracing };
+        const rateLimit = options.rateLimit ?? (typeof window !== 'undefined' ? {} : false);
+        this.rateLimiter =
+            rateLimit === false ? null : rateLimit instanceof RateLimiter ? rateLimit : new RateLimiter(rateLimit);
+
+        const useDefaults = options.defaultInterceptors ?? true;
+        this.defaultInterceptors = {
+            logging: useDefaults ? this.interceptors.request.use(requestLoggingInterceptor) : null,
+            apiError: useDefaults ? this.interceptors.response.use(apiErrorInterceptor) : null,
+        };
 
-    constructor(baseUrl: string, defaultHeaders: HeadersInit = {}) {
-        this.baseUrl = baseUrl;
-        this.defaultHeaders = defaultHeaders;
+        options.interceptors?.request?.forEach((interceptor) => this.interceptors.request.use(interceptor));
+        options.interceptors?.response?.forEach((interceptor) => this.interceptors.response.use(interceptor));
+
+        // 공유 저장소에서 다른 인스턴스가 토큰을 바꿔도 이 인스턴스의 구독자에게 알림
+        this.tokenSource.subscribe((token) => {
+            this.events.emit('authTokenChanged', { token });
+
+            // 로그아웃, 다른 사용자로 로그인 등 토큰이 바뀌면 이전 토큰으로 받은 응답을 남기지 않음
+            this.httpCache?.clear();
+        });
     }
 
     /**
      * 인증 토큰 설정
+     * 값이 바뀌면 authTokenChanged 이벤트 발생 (토큰 저장소를 공유하는 인스턴스 모두)
      * @param token - Bearer 토큰 문자열
      */
     setAuthToken(token: string | null): void {
-        this.authToken = token;
+        this.tokenSource.set(token);
+    }
+
+    /**
+     * 현재 인증 토큰 조회
+     * 실시간 연결 등 fetch 이외의 전송 계층에서 같은 토큰을 사용할 때 참조
+     */
+    getAuthToken(): string | null {
+        return this.tokenSource.get();
+    }
+
+    /**
+     * 토큰 자동 갱신 설정 변경
+     * @param options - 변경할 설정 (null이면 자동 갱신 비활성화)
+     *
+     * @example
+     * apiClient.setAuthRefresh({
+     *   refresh: async (client) => (await client.post<AuthTokenResponse>('/oauth/token')).accessToken,
+     * });
+     */
+    setAuthRefresh(options: Partial<AuthRefreshOptions> | null): void {
+        this.authRefresh = options ? { ...DEFAULT_AUTH_REFRESH_OPTIONS, ...options } : null;
+    }
+
+    /**
+     * 재시도 정책 변경
+     * @param policy - 기본 정책을 덮어쓸 값 (false면 재시도 비활성화)
+     */
+    setRetryPolicy(policy: Partial<RetryPolicy> | false): void {
+        this.retryPolicy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, policy);
+    }
+
+    /**
+     * 멱등성 키 설정 변경
+     * @param options - 기본 설정을 덮어쓸 값 (false면 키 생성과 중복 전송 방지 비활성화)
+     */
+    setIdempotency(options: Partial<IdempotencyOptions> | false): void {
+        this.idempotency = resolveIdempotencyOptions(DEFAULT_IDEMPOTENCY_OPTIONS, options);
+    }
+
+    /**
+     * 요청 추적 헤더 설정 변경
+     * @param options - 기본 설정을 덮어쓸 값 (false면 traceparent/요청 ID 헤더를 보내지 않음)
+     */
+    setTracing(options: Partial<TracingOptions> | false): void {
+        this.tracing = options === false ? null : { ...DEFAULT_TRACING_OPTIONS, ...options };
+    }
+
+    /**
+     * 조건부 요청 캐시 변경
+     * @param cache - 캐시 인스턴스 또는 옵션 (false면 비활성화)
+     *
+     * @example
+     * apiClient.setHttpCache({ maxEntries: 50, persist: true, exclude: ['/auth'] });
+     */
+    setHttpCache(cache: HttpCache | HttpCacheOptions | boolean): void {
+        this.httpCache = resolveHttpCache(cache);
+    }
+
+    /**
+     * 현재 조건부 요청 캐시 (비활성화 상태면 null)
+     */
+    getHttpCache(): HttpCache | null {
+        return this.httpCache;
+    }
+
+    /**
+     * 클라이언트 이벤트 구독
+     * @returns 구독 해제 함수
+     *
+     * @example
+     * apiClient.on('sessionExpired', () => router.replace('/login'));
+     */
+    on<K extends keyof ApiClientEvents>(
+        event: K,
+        listener: EventListener<ApiClientEvents[K]>
+    ): () => void {
+        return this.events.on(event, listener);
+    }
+
+    /**
+     * 액세스 토큰 갱신
+     * 이미 갱신 중이면 진행 중인 갱신 결과를 함께 기다림
+     *
+     * @returns 새 액세스 토큰
+     */
+    refreshAuthToken(): Promise<string> {
+        if (!this.authRefresh) {
+            return Promise.reject(new Error('토큰 자동 갱신이 비활성화되어 있습니다.'));
+        }
+
+        if (!this.refreshPromise) {
+            const { refresh } = this.authRefresh;
+
+            // 성공하면 새 토큰, 실패하면 null로 저장소 갱신
+            this.refreshPromise = this.tokenSource
+                .refresh(() => refresh(this))
+                .catch((error: unknown) => {
+                    // 갱신 실패: 세션 만료 알림
+                    this.events.emit('sessionExpired', { error });
+                    throw error;
+                })
+                .finally(() => {
+                    this.refreshPromise = null;
+                });
+        }
+
+        return this.refreshPromise;
+    }
+
+    /**
+     * 인증 전략에 전달할 클라이언트 정보
+     */
+    private getAuthContext(): AuthContext {
+        return { baseUrl: this.baseUrl, fetch: this.fetchImpl };
     }
 
     /**
      * 요청 헤더 생성
-     * 인증 토큰이 있으면 Authorization 헤더 추가
+     * 인증 전략에 따라 인증 헤더 추가
      */
-    private getHeaders(customHeaders?: HeadersInit): Record<string, string> {
+    private getHeaders(method: string, url: string, customHeaders?: HeadersInit): Record<string, string> {
         // HeadersInit을 Record<string, string>으로 변환
         const baseHeaders = this.headersToRecord(this.defaultHeaders);
         const additionalHeaders = customHeaders ? this.headersToRecord(customHeaders) : {};
@@ -60,12 +502,7 @@ class ApiClient {
             ...additionalHeaders,
         };
 
-        // 인증 토큰이 있으면 헤더에 추가
-        if (this.authToken) {
-            headers['Authorization'] = `Bearer ${this.authToken}`;
-        }
-
-        return headers;
+        return this.auth.authorize(headers, { method, url });
     }
 
     /**
@@ -86,165 +523,745 @@ class ApiClient {
     }
 
     /**
-     * 요청 전처리 인터셉터
-     * 요청 전에 로깅, 토큰 갱신 등의 작업 수행
+     * 응답 본문 파싱
+     * 성공 응답은 responseType에 따라, 실패 응답은 가능한 범위에서 파싱
      */
-    private async requestInterceptor(config: RequestConfig): Promise<RequestConfig> {
-        // 개발 환경에서 요청 로깅
-        if (process.env.NODE_ENV === 'development') {
-            console.log(`[API] ${config.method} ${config.url}`);
+    private async parseResponse(response: Response, config: RequestConfig): Promise<ApiResponse<unknown>> {
+        let data: unknown = null;
+
+        // 204 No Content, 304 Not Modified 응답은 본문 없음
+        if (response.status !== 204 && response.status !== 304) {
+            data = response.ok
+                ? await this.parseBody(response, config)
+                : await this.parseErrorResponse(response);
         }
 
-        return config;
+        return { data, status: response.status, headers: response.headers, config };
     }
 
     /**
-     * 응답 후처리 인터셉터
-     * 응답 후 로깅, 에러 처리 등의 작업 수행
+     * 성공 응답 본문 파싱
      */
-    private async responseInterceptor<T>(response: Response): Promise<ApiResponse<T>> {
-        // 응답이 성공적이지 않은 경우 에러 처리
-        if (!response.ok) {
-            const errorData = await this.parseErrorResponse(response);
-            throw this.createApiError(response.status, errorData);
+    private parseBody(response: Response, config: RequestConfig): Promise<unknown> {
+        switch (config.responseType) {
+            case 'text':
+                return response.text();
+            case 'blob':
+                return response.blob();
+            case 'arrayBuffer':
+                return response.arrayBuffer();
+            case 'stream':
+                return Promise.resolve(response.body);
+            default:
+                return response.json();
         }
-
-        // 204 No Content 응답 처리
-        if (response.status === 204) {
-            return { data: null as T, status: response.status };
-        }
-
-        const data = await response.json();
-        return { data, status: response.status };
     }
 
     /**
      * 에러 응답 파싱
      */
-    private async parseErrorResponse(response: Response): Promise<{ message: string }> {
+    private async parseErrorResponse(response: Response): Promise<unknown> {
         try {
-            const errorJson = await response.json();
-            return { message: errorJson.message || '알 수 없는 오류가 발생했습니다.' };
+            return await response.json();
         } catch {
             return { message: response.statusText || '서버 응답을 파싱할 수 없습니다.' };
         }
     }
 
     /**
-     * API 에러 객체 생성
+     * 요청에 사용할 조건부 요청 캐시
+     * GET 요청의 JSON/텍스트 응답만 대상이며, 요청 옵션이나 exclude로 제외된 엔드포인트는 null
      */
-    private createApiError(status: number, errorData: { message: string }): ApiError {
-        const error: ApiError = {
-            status,
-            message: errorData.message,
-            name: 'ApiError',
-        };
+    private getRequestHttpCache(
+        method: string,
+        endpoint: string,
+        responseType: string,
+        options: RequestOptions<unknown>
+    ): HttpCache | null {
+        const cache = this.httpCache;
+
+        if (
+            !cache ||
+            method !== 'GET' ||
+            options.httpCache === false ||
+            (responseType !== 'json' && responseType !== 'text') ||
+            !cache.isCacheable(endpoint)
+        ) {
+            return null;
+        }
+
+        return cache;
+    }
+
+    /**
+     * 조건부 요청 결과 처리
+     * 304 응답은 캐시된 본문으로 만든 200 응답으로 바꾸고, 200 응답은 캐시에 저장
+     */
+    private applyHttpCache(
+        cache: HttpCache,
+        key: string,
+        response: ApiResponse<unknown>,
+        cached: HttpCacheEntry | undefined
+    ): ApiResponse<unknown> {
+        if (response.status === 304 && cached) {
+            log.debug('304 Not Modified: 캐시된 응답 사용', { url: response.config.url });
+
+            return {
+                data: cached.data,
+                status: 200,
+                headers: cache.revalidate(cached, response.headers),
+                config: response.config,
+                fromCache: true,
+            };
+        }
+
+        if (response.status === 200) {
+            cache.set(key, response.data, response.headers);
+        }
+
+        return response;
+    }
 
-        // 상태 코드별 에러 메시지 보강
-        switch (status) {
-            case 401:
-                error.message = '인증이 필요합니다. 다시 로그인해주세요.';
-                break;
-            case 403:
-                error.message = '접근 권한이 없습니다.';
-                break;
-            case 404:
-                error.message = '요청한 리소스를 찾을 수 없습니다.';
-                break;
-            case 500:
-                error.message = '서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.';
-                break;
+    /**
+     * 응답 데이터 스키마 검증
+     * 검증 실패 시 validationMode에 따라 throw하거나 보고 후 원본 데이터를 반환
+     */
+    private validate<T>(
+        data: unknown,
+        schema: ResponseSchema<T> | undefined,
+        config: RequestConfig,
+        headers: Headers
+    ): T {
+        if (!schema || this.validationMode === 'off') {
+            return data as T;
         }
 
-        return error;
+        const result = schema.safeParse(data);
+        if (result.success) {
+            return result.data;
+        }
+
+        const error = new ValidationError(
+            result.error.issues,
+            data,
+            config.method,
+            config.url,
+            headers.get(REQUEST_ID_HEADER) ?? undefined
+        );
+        this.events.emit('validationError', { error });
+
+        if (this.validationMode === 'throw') {
+            log.error('응답 스키마 검증 실패', {
+                method: config.method,
+                url: config.url,
+                paths: error.paths,
+                issues: error.issues,
+            });
+            throw error;
+        }
+
+        log.warn('응답 스키마 검증 실패 (통과 처리)', { method: config.method, url: config.url, paths: error.paths });
+        return data as T;
     }
 
     /**
      * HTTP 요청 실행
+     * 비멱등 요청에는 호출 단위로 멱등성 키를 붙이고 (재시도에도 같은 키 사용),
+     * 같은 변경 요청이 진행 중이면 새로 보내지 않고 진행 중인 요청의 결과를 반환
+     * (함께 기다리는 호출은 먼저 보낸 호출의 signal과 옵션을 따르므로, 먼저 보낸 호출이 취소되면 AbortError로 실패)
      */
-    private async request<T>(
+    private request<T>(
         method: string,
         endpoint: string,
         body?: unknown,
-        customHeaders?: HeadersInit
-    ): Promise<T> {
-        const url = `${this.baseUrl}${endpoint}`;
+        options: RequestOptions<T> = {}
+    ): Promise<ApiResponse<T>> {
+        const policy = this.idempotency;
+        const explicitKey = options.idempotencyKey || undefined;
+        const idempotencyKey =
+            options.idempotencyKey === false
+                ? undefined
+                : (explicitKey ?? (policy?.methods.includes(method) ? policy.generateKey() : undefined));
+
+        const lockKey =
+            policy?.dedupe &&
+            options.dedupe !== false &&
+            options.responseType !== 'stream'
+                ? getMutationLockKey(method, endpoint, options.params, body, explicitKey)
+                : null;
+
+        const inFlight = lockKey ? this.inFlightMutations.get(lockKey) : undefined;
+        if (inFlight) {
+            log.debug('진행 중인 동일 요청의 결과를 사용합니다.', { method, endpoint });
+            return inFlight as Promise<ApiResponse<T>>;
+        }
+
+        const requestOptions: RequestOptions<T> = {
+            ...options,
+            // 재시도와 토큰 갱신 후 재요청이 같은 trace로 기록되도록 호출 단위로 생성
+            traceId: options.traceId ?? createTraceId(),
+            ...(idempotencyKey
+                ? {
+                      headers: {
+                          [policy?.header ?? DEFAULT_IDEMPOTENCY_OPTIONS.header]: idempotencyKey,
+                          ...(options.headers ? this.headersToRecord(options.headers) : {}),
+                      },
+                  }
+                : {}),
+        };
+
+        const promise = this.executeWithAuthRefresh<T>(method, endpoint, body, requestOptions).catch(
+            (error: unknown) => {
+                // 고객 문의나 서버 로그 추적에 사용할 수 있도록 에러에 키를 남김
+                if (idempotencyKey && isApiError(error)) {
+                    error.idempotencyKey ??= idempotencyKey;
+                }
+                throw error;
+            }
+        );
+
+        if (lockKey) {
+            const release = () => {
+                this.inFlightMutations.delete(lockKey);
+            };
+
+            this.inFlightMutations.set(lockKey, promise);
+            promise.then(release, release);
+        }
+
+        return promise;
+    }
+
+    /**
+     * 인증 복구를 포함한 요청 실행
+     * 401 응답을 받으면 토큰을 갱신한 뒤, 인증 전략이 복구한 실패(CSRF 토큰 거부 등)는 바로 한 번 재시도
+     */
+    private async executeWithAuthRefresh<T>(
+        method: string,
+        endpoint: string,
+        body: unknown,
+        options: RequestOptions<T>,
+        isAuthRetry = false
+    ): Promise<ApiResponse<T>> {
+        // 요청 시점의 토큰 (갱신 중 이미 교체되었는지 판단하는 데 사용)
+        const sentToken = this.tokenSource.get();
+
+        try {
+            return await this.executeWithRetry<T>(method, endpoint, body, options);
+        } catch (error) {
+            if (!isAuthRetry && (await this.recoverAuth(error))) {
+                return this.executeWithAuthRefresh<T>(method, endpoint, body, options, true);
+            }
+
+            if (
+                isAuthRetry ||
+                !isHttpError(error, 401) ||
+                !this.authRefresh ||
+                this.authRefresh.excludedEndpoints.includes(endpoint)
+            ) {
+                throw error;
+            }
+
+            // 다른 요청이 이미 토큰을 갱신했다면 바로 재시도, 아니면 갱신 대기
+            const currentToken = this.tokenSource.get();
+            if (!currentToken || currentToken === sentToken) {
+                try {
+                    await this.refreshAuthToken();
+                } catch {
+                    // 갱신 실패 시 원래의 401 에러를 전달
+                    throw error;
+                }
+            }
+
+            return this.executeWithAuthRefresh<T>(method, endpoint, body, options, true);
+        }
+    }
+
+    /**
+     * 인증 전략에 실패 복구 요청 (복구에 실패하면 원래 에러를 전달하도록 false)
+     */
+    private async recoverAuth(error: unknown): Promise<boolean> {
+        if (!this.auth.recover) {
+            return false;
+        }
+
+        try {
+            return await this.auth.recover(error, this.getAuthContext());
+        } catch (recoverError) {
+            log.warn('인증 정보를 복구하지 못했습니다.', { error: recoverError });
+            return false;
+        }
+    }
+
+    /**
+     * 재시도 정책에 따라 요청 실행
+     * 재시도 가능한 실패는 백오프 대기 후 다시 시도
+     */
+    private async executeWithRetry<T>(
+        method: string,
+        endpoint: string,
+        body: unknown,
+        options: RequestOptions<T>
+    ): Promise<ApiResponse<T>> {
+        const policy = resolveRetryPolicy(this.retryPolicy, options.retry);
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.execute<T>(method, endpoint, body, options);
+            } catch (error) {
+                if (!policy || attempt >= policy.maxAttempts || !shouldRetry(error, method, policy)) {
+                    throw error;
+                }
+
+                const info = {
+                    method,
+                    endpoint,
+                    attempt,
+                    maxAttempts: policy.maxAttempts,
+                    delayMs: getRetryDelay(attempt, policy, error),
+                    error,
+                };
+
+                this.events.emit('retry', info);
+                options.onRetry?.(info);
+
+                await wait(info.delayMs, options.signal);
+            }
+        }
+    }
+
+    /**
+     * 인터셉터를 거쳐 단일 HTTP 요청 실행
+     * 타임아웃과 호출자의 AbortSignal을 하나의 신호로 합쳐 fetch에 전달
+     * 요청마다 span ID와 요청 ID를 만들어 헤더에 붙이고, 끝나면 'metrics' 이벤트 발생
+     *
+     * responseType이 'stream'이면 타임아웃은 응답 헤더 수신까지만 적용되고,
+     * 호출자의 AbortSignal은 스트림을 읽는 동안에도 유효함
+     */
+    private async execute<T>(
+        method: string,
+        endpoint: string,
+        body: unknown,
+        options: RequestOptions<T>
+    ): Promise<ApiResponse<T>> {
+        const { params, signal, timeoutMs = this.timeoutMs, responseType = 'json' } = options;
+        const query = { ...this.querySerialization, ...options.querySerialization };
+        const url = `${this.baseUrl}${params ? withQueryParams(endpoint, params, query) : endpoint}`;
+
+        // 호출자가 이미 취소한 요청은 보내지 않음
+        if (signal?.aborted) {
+            throw new AbortError(signal.reason);
+        }
+
+        const timing = new RequestTimer();
+        const httpCache = this.getRequestHttpCache(method, endpoint, responseType, options);
+        const cacheKey = createHttpCacheKey(url, responseType, this.tokenSource.get());
+        const cached = httpCache ? await httpCache.get(cacheKey) : undefined;
+
+        // 인증 전략의 비동기 준비 (CSRF 토큰 발급 등)
+        await this.auth.prepare?.({ method, url }, this.getAuthContext());
+
+        const controller = new AbortController();
+        let timedOut = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const abortFromCaller = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+        const callerHeaders = options.headers ? this.headersToRecord(options.headers) : {};
+        let headers = this.getHeaders(method, url, options.headers);
+
+        // JSON 이외의 응답은 기본 Accept(application/json)를 사용하지 않음
+        if (responseType !== 'json' && !findHeader(callerHeaders, 'Accept')) {
+            headers = setHeader(headers, 'Accept', '*/*');
+        }
+
+        // 캐시된 응답이 있으면 조건부 요청 (호출자가 직접 지정한 헤더 우선)
+        if (cached?.etag && !findHeader(callerHeaders, 'If-None-Match')) {
+            headers = setHeader(headers, 'If-None-Match', cached.etag);
+        }
+        if (cached?.lastModified && !findHeader(callerHeaders, 'If-Modified-Since')) {
+            headers = setHeader(headers, 'If-Modified-Since', cached.lastModified);
+        }
+
+        // 추적 헤더 (호출자가 직접 지정한 헤더 우선)
+        const traceId = options.traceId ?? createTraceId();
+        const requestIdHeader = this.tracing?.requestIdHeader || REQUEST_ID_HEADER;
+        const requestId = findHeader(callerHeaders, requestIdHeader) ?? createRequestId();
+
+        if (this.tracing?.traceparent && !findHeader(callerHeaders, TRACEPARENT_HEADER)) {
+            headers = setHeader(headers, TRACEPARENT_HEADER, formatTraceparent(traceId, createSpanId()));
+        }
+        if (this.tracing?.requestIdHeader) {
+            headers = setHeader(headers, requestIdHeader, requestId);
+        }
+
+        const serialized = serializeBody(body, headers, findHeader(callerHeaders, 'Content-Type'));
 
         const config: RequestConfig = {
             method,
             url,
-            headers: this.getHeaders(customHeaders),
-            body: body ? JSON.stringify(body) : undefined,
+            headers: serialized.headers,
+            body: serialized.body,
+            signal: controller.signal,
+            responseType,
+            cache: options.cache,
+            next: options.next,
+            credentials: this.auth.credentials,
         };
 
-        // 요청 인터셉터 실행
-        const processedConfig = await this.requestInterceptor(config);
+        // 측정용: 응답 인터셉터를 거치기 전의 응답과 실패 원인
+        let received: ApiResponse<unknown> | undefined;
+        let failure: unknown;
 
-        // 요청 실행
-        const response = await fetch(processedConfig.url, {
-            method: processedConfig.method,
-            headers: processedConfig.headers,
-            body: processedConfig.body,
-        });
+        // 속도 제한 슬롯 반환 함수
+        let release: (() => void) | undefined;
+
+        try {
+            // 요청 인터셉터 실행
+            const processedConfig = await this.interceptors.request.run(config);
+
+            // 속도 제한 대기 (대기 중 취소 가능, 대기 시간은 타임아웃에 포함하지 않음)
+            release = await this.rateLimiter?.acquire(processedConfig.url, options.priority, controller.signal);
+
+            if (timeoutMs > 0) {
+                timer = setTimeout(() => {
+                    timedOut = true;
+                    controller.abort();
+                }, timeoutMs);
+            }
+
+            // 요청 실행 (네트워크/타임아웃 에러도 응답 인터셉터의 onRejected로 전달됨)
+            timing.dispatched();
+            const pending = this.send(processedConfig, options.onProgress)
+                .then(
+                    (response) => {
+                        timing.headersReceived();
+                        return this.parseResponse(response, processedConfig);
+                    },
+                    (error: unknown) => {
+                        throw new NetworkError(error);
+                    }
+                )
+                // 인터셉터보다 먼저 처리하여 304가 에러로 변환되지 않도록 함
+                .then((response) => (httpCache ? this.applyHttpCache(httpCache, cacheKey, response, cached) : response))
+                .then((response) => {
+                    received = response;
+
+                    // 429: Retry-After 동안 같은 호스트의 대기열 전송을 멈춤
+                    if (response.status === 429) {
+                        this.rateLimiter?.pause(url, parseRetryAfter(response.headers.get('Retry-After')));
+                    }
+
+                    return response;
+                })
+                .catch((error: unknown) => {
+                    if (timedOut) throw new TimeoutError(timeoutMs);
+                    if (signal?.aborted) throw new AbortError(signal.reason);
+                    throw error;
+                });
+
+            // 응답 인터셉터 실행
+            const result = await this.interceptors.response.run(pending);
+            return { ...result, data: this.validate(result.data, options.schema, processedConfig, result.headers) };
+        } catch (error) {
+            failure = error;
+
+            // 서버 로그와 대조할 수 있도록 추적 정보를 에러에 남김
+            if (isApiError(error)) {
+                error.traceId ??= traceId;
+                error.clientRequestId ??= requestId;
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            release?.();
+            if (responseType !== 'stream') {
+                signal?.removeEventListener('abort', abortFromCaller);
+            }
 
-        // 응답 인터셉터 실행
-        const result = await this.responseInterceptor<T>(response);
-        return result.data;
+            this.events.emit('metrics', {
+                method,
+                endpoint,
+                url,
+                traceId,
+                requestId,
+                serverRequestId: received?.headers.get(REQUEST_ID_HEADER) ?? undefined,
+                status: received?.status ?? 0,
+                ok: failure === undefined,
+                fromCache: received?.fromCache ?? false,
+                // 캐시된 응답은 저장해 둔 원래 응답의 크기 (전송량은 fromCache로 구분)
+                size: received ? getResponseSize(received.headers, received.data) : null,
+                ...timing.finish(),
+                error: failure instanceof Error ? failure.name : undefined,
+            });
+        }
+    }
+
+    /**
+     * 요청 전송
+     * 업로드 진행률이 필요하면 XHR 전송 계층을, 그 외에는 fetch를 사용
+     * (목 백엔드 등 전송 함수를 교체했거나 XHR로 보낼 수 없는 스트림 본문은 업로드 완료 시점에 한 번만 보고)
+     */
+    private async send(config: RequestConfig, onProgress?: RequestOptions['onProgress']): Promise<Response> {
+        const init: RequestInit = {
+            method: config.method,
+            headers: config.headers,
+            body: config.body,
+            signal: config.signal,
+            cache: config.cache,
+            credentials: config.credentials,
+            // Next.js 서버 fetch 전용 옵션 (브라우저에서는 무시됨)
+            ...(config.next ? { next: config.next } : {}),
+            // 스트림 본문 업로드에 필요 (RequestInit 타입에 아직 없음)
+            ...(typeof ReadableStream !== 'undefined' && config.body instanceof ReadableStream
+                ? { duplex: 'half' }
+                : {}),
+        };
+
+        if (!onProgress) {
+            return this.fetchImpl(config.url, init);
+        }
+
+        const hasBody = config.body !== undefined;
+        if (isXhrBody(config.body) && !this.hasCustomFetch && isXhrAvailable()) {
+            return xhrFetch(config.url, init, onProgress);
+        }
+
+        const response = await this.fetchImpl(config.url, init);
+        if (hasBody) {
+            const size = getBodySize(config.body);
+            onProgress(createProgress('upload', size ?? 0, size));
+        }
+
+        return trackDownloadProgress(response, onProgress);
+    }
+
+    /**
+     * 스트리밍 요청
+     * SSE 이벤트 또는 NDJSON 레코드를 도착하는 대로 반환하는 비동기 이터레이터
+     * 기본 URL, 인증 토큰, 인터셉터, 401 토큰 갱신이 일반 요청과 동일하게 적용됨
+     *
+     * - 반복을 중단(break)하거나 signal을 abort하면 연결 종료 (abort 시 AbortError)
+     * - SSE는 연결이 끊기면 Last-Event-ID와 함께 재연결 (204 응답이나 4xx 에러는 재연결하지 않음)
+     *
+     * @param endpoint - API 엔드포인트
+     * @param options - 스트림 형식, 재연결 및 요청 옵션
+     *
+     * @example
+     * for await (const { event, data } of apiClient.stream<JobEvent>('/jobs/1/events', { signal })) {
+     *   if (event === 'done') break;
+     *   setProgress(data.percent);
+     * }
+     */
+    stream<T>(endpoint: string, options: StreamOptions<T> & { format: 'ndjson' }): AsyncGenerator<T>;
+    stream<T>(endpoint: string, options?: StreamOptions<T> & { format?: 'sse' }): AsyncGenerator<ServerSentEvent<T>>;
+    async *stream<T>(endpoint: string, options: StreamOptions<T> = {}): AsyncGenerator<T | ServerSentEvent<T>> {
+        const {
+            format = 'sse',
+            method = 'GET',
+            body,
+            lastEventId,
+            reconnect = format === 'sse',
+            parseData = parseStreamData<T>,
+            onOpen,
+            onReconnect,
+            signal,
+            headers,
+            ...requestOptions
+        } = options;
+
+        const policy: StreamReconnectOptions | null = reconnect
+            ? { ...DEFAULT_STREAM_RECONNECT, ...(reconnect === true ? {} : reconnect) }
+            : null;
+
+        // 호출자 취소와 반복 중단을 모두 처리하기 위한 내부 신호
+        const controller = new AbortController();
+        const abortFromCaller = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+        let eventId = lastEventId;
+        let serverRetryMs: number | undefined;
+        let attempt = 0;
+
+        try {
+            while (true) {
+                let failure: unknown;
+
+                try {
+                    const response = await this.request<ReadableStream<Uint8Array> | null>(method, endpoint, body, {
+                        ...requestOptions,
+                        headers: {
+                            Accept: format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+                            ...(eventId ? { 'Last-Event-ID': eventId } : {}),
+                            ...(headers ? this.headersToRecord(headers) : {}),
+                        },
+                        signal: controller.signal,
+                        responseType: 'stream',
+                    });
+
+                    onOpen?.({ status: response.status, headers: response.headers });
+
+                    // 204: 서버가 더 보낼 데이터가 없음 (재연결 중단)
+                    if (response.status === 204 || !response.data) {
+                        return;
+                    }
+
+                    if (format === 'ndjson') {
+                        for await (const record of parseNdjson(response.data, parseData)) {
+                            attempt = 0;
+                            yield record;
+                            // 전송 함수가 취소를 본문 스트림에 전달하지 않는 경우 대비
+                            controller.signal.throwIfAborted();
+                        }
+                    } else {
+                        for await (const event of parseSse(response.data, parseData)) {
+                            attempt = 0;
+                            eventId = event.id ?? eventId;
+                            serverRetryMs = event.retry ?? serverRetryMs;
+                            yield event;
+                            controller.signal.throwIfAborted();
+                        }
+                    }
+                } catch (error) {
+                    // 4xx 응답(408, 429 제외)은 재연결해도 같은 결과
+                    const isClientError =
+                        isHttpError(error) && error.status < 500 && error.status !== 408 && error.status !== 429;
+
+                    if (signal?.aborted || !policy || isClientError) {
+                        throw signal?.aborted ? new AbortError(signal.reason) : error;
+                    }
+
+                    failure = error;
+                }
+
+                if (!policy || attempt >= policy.maxAttempts) {
+                    if (failure) throw failure;
+                    return;
+                }
+
+                attempt++;
+                const delayMs = serverRetryMs ?? policy.delayMs;
+                onReconnect?.({ attempt, delayMs, lastEventId: eventId, error: failure });
+
+                await wait(delayMs, controller.signal);
+            }
+        } finally {
+            signal?.removeEventListener('abort', abortFromCaller);
+            controller.abort();
+        }
     }
 
     /**
      * GET 요청
      * @param endpoint - API 엔드포인트 (예: '/users')
-     * @param headers - 추가 헤더 (선택)
+     * @param options - 요청 옵션 (선택)
      */
-    async get<T>(endpoint: string, headers?: HeadersInit): Promise<T> {
-        return this.request<T>('GET', endpoint, undefined, headers);
+    async get<T>(endpoint: string, options?: RequestOptions<T>): Promise<T> {
+        return (await this.request<T>('GET', endpoint, undefined, options)).data;
     }
 
     /**
      * POST 요청
      * @param endpoint - API 엔드포인트
      * @param body - 요청 본문 데이터
-     * @param headers - 추가 헤더 (선택)
+     * @param options - 요청 옵션 (선택)
      */
-    async post<T>(endpoint: string, body?: unknown, headers?: HeadersInit): Promise<T> {
-        return this.request<T>('POST', endpoint, body, headers);
+    async post<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<T> {
+        return (await this.request<T>('POST', endpoint, body, options)).data;
     }
 
     /**
      * PUT 요청
      * @param endpoint - API 엔드포인트
      * @param body - 요청 본문 데이터
-     * @param headers - 추가 헤더 (선택)
+     * @param options - 요청 옵션 (선택)
      */
-    async put<T>(endpoint: string, body?: unknown, headers?: HeadersInit): Promise<T> {
-        return this.request<T>('PUT', endpoint, body, headers);
+    async put<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<T> {
+        return (await this.request<T>('PUT', endpoint, body, options)).data;
     }
 
     /**
      * PATCH 요청
      * @param endpoint - API 엔드포인트
      * @param body - 요청 본문 데이터
-     * @param headers - 추가 헤더 (선택)
+     * @param options - 요청 옵션 (선택)
      */
-    async patch<T>(endpoint: string, body?: unknown, headers?: HeadersInit): Promise<T> {
-        return this.request<T>('PATCH', endpoint, body, headers);
+    async patch<T>(endpoint: string, body?: unknown, options?: RequestOptions<T>): Promise<T> {
+        return (await this.request<T>('PATCH', endpoint, body, options)).data;
     }
 
     /**
      * DELETE 요청
      * @param endpoint - API 엔드포인트
-     * @param headers - 추가 헤더 (선택)
+     * @param options - 요청 옵션 (선택)
      */
-    async delete<T>(endpoint: string, headers?: HeadersInit): Promise<T> {
-        return this.request<T>('DELETE', endpoint, undefined, headers);
+    async delete<T>(endpoint: string, options?: RequestOptions<T>): Promise<T> {
+        return (await this.request<T>('DELETE', endpoint, undefined, options)).data;
     }
+
+    /**
+     * 파일 다운로드
+     * 응답을 Blob으로 받고 Content-Disposition 헤더에서 파일명을 읽음
+     *
+     * @param endpoint - API 엔드포인트
+     * @param options - 요청 옵션 (method, body 지정 가능)
+     * @returns 파일 데이터와 파일명
+     */
+    async download(endpoint: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+        const { method = 'GET', body, ...requestOptions } = options;
+        const response = await this.request<Blob>(method, endpoint, body, {
+            ...requestOptions,
+            responseType: 'blob',
+        });
+
+        // 204 응답은 본문이 없으므로 빈 Blob으로 대체
+        const blob = response.data ?? new Blob();
+
+        return {
+            blob,
+            filename: parseContentDisposition(response.headers.get('Content-Disposition')),
+            contentType: response.headers.get('Content-Type') ?? blob.type,
+            headers: response.headers,
+        };
+    }
+}
+
+/**
+ * API 클라이언트 인스턴스 생성
+ * 기본 URL, 헤더, 인증, 인터셉터, 재시도 정책이 다른 백엔드(파일, 검색, 결제 등)마다 하나씩 생성
+ *
+ * @param options - 인스턴스 옵션
+ * @returns 새 ApiClient 인스턴스
+ *
+ * @example
+ * export const filesClient = createApiClient({
+ *   baseUrl: 'https://files.example.com',
+ *   tokenSource: apiClient.tokenSource,
+ *   authRefresh: { refresh: () => apiClient.refreshAuthToken() },
+ *   timeoutMs: 0,
+ * });
+ */
+export function createApiClient(options: ApiClientOptions = {}): ApiClient {
+    return new ApiClient(options);
 }
 
 /**
  * 전역 API 클라이언트 인스턴스
  * 앱 전체에서 이 인스턴스를 import하여 사용
  */
-export const apiClient = new ApiClient(API_BASE_URL, DEFAULT_HEADERS);
+export const apiClient = new ApiClient({
+    baseUrl: API_BASE_URL,
+    headers: DEFAULT_HEADERS,
+    // 쿠키 세션 모드는 세션 쿠키와 CSRF 토큰으로 인증 (액세스 토큰 갱신 없음)
+    auth: config.api.auth === 'cookie' ? cookieSessionAuth({ tokenEndpoint: ENDPOINTS.AUTH.CSRF.path }) : undefined,
+    authRefresh: config.api.auth === 'bearer' ? DEFAULT_AUTH_REFRESH_OPTIONS : null,
+    timeoutMs: config.api.timeoutMs,
+    validation: config.api.validation,
+    // 목 데이터 모드에서는 인프로세스 목 백엔드로 요청 처리 (필요할 때만 로드)
+    fetch: config.features.useMockData
+        ? (input, init) => import('./mock').then(({ mockBackend }) => mockBackend.fetch(input, init))
+        : undefined,
+});
 
 export default apiClient;
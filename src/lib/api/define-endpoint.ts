@@ -0,0 +1,161 @@
+/**
+ * @file 타입 안전한 엔드포인트 정의
+ * @description 메서드, 경로, 요청/응답 타입을 하나로 묶은 엔드포인트 정의 헬퍼
+ *
+ * 경로의 `:param` 세그먼트에서 경로 파라미터 타입을 추론하고,
+ * 정의에 선언된 body/query/response 타입을 callEndpoint()가 그대로 사용합니다.
+ *
+ * @example
+ * const DETAIL = defineEndpoint<{ response: User }>()({
+ *   method: 'GET',
+ *   path: '/users/:id',
+ * });
+ *
+ * // 응답 검증 스키마 첨부 (선택)
+ * const ME = defineEndpoint<{ response: User }>()({
+ *   method: 'GET',
+ *   path: '/auth/me',
+ *   schema: UserSchema,
+ * });
+ *
+ * // 자주 바뀌는 응답은 조건부 요청 캐시에서 제외
+ * const NOTIFICATIONS = defineEndpoint<{ response: Notification[] }>()({
+ *   method: 'GET',
+ *   path: '/notifications',
+ *   httpCache: false,
+ * });
+ *
+ * // user: User, params.id 누락 시 컴파일 에러
+ * const user = await callEndpoint(DETAIL, { params: { id: '1' } });
+ */
+
+import type { ResponseSchema } from './validation';
+
+/**
+ * 지원하는 HTTP 메서드
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * 엔드포인트별 요청/응답 타입 선언
+ */
+export interface EndpointTypes {
+    /** 응답 데이터 타입 */
+    response?: unknown;
+    /** 요청 본문 타입 */
+    body?: unknown;
+    /** 쿼리 파라미터 타입 */
+    query?: object;
+}
+
+/**
+ * 엔드포인트 정의
+ *
+ * @template TMethod - HTTP 메서드
+ * @template TPath - `:param` 세그먼트를 포함할 수 있는 경로 리터럴
+ * @template TTypes - 요청/응답 타입 선언
+ */
+export interface EndpointDefinition<
+    TMethod extends HttpMethod = HttpMethod,
+    TPath extends string = string,
+    TTypes extends EndpointTypes = EndpointTypes,
+> {
+    /** HTTP 메서드 */
+    readonly method: TMethod;
+    /** 경로 (예: '/users/:id') */
+    readonly path: TPath;
+    /** 응답 데이터 검증 스키마 (선택) */
+    readonly schema?: ResponseSchema<TTypes extends { response: infer R } ? R : unknown>;
+    /** HTTP 조건부 요청 캐시 사용 여부 (false면 클라이언트에 httpCache가 있어도 사용하지 않음) */
+    readonly httpCache?: boolean;
+    /** 타입 추론 전용 필드 (런타임 값 없음) */
+    readonly __types?: TTypes;
+}
+
+/**
+ * 경로 문자열에서 파라미터 이름 추출
+ *
+ * @example
+ * PathParamNames<'/users/:id/posts/:postId'> // 'id' | 'postId'
+ */
+export type PathParamNames<TPath extends string> =
+    TPath extends `${string}:${infer Param}/${infer Rest}`
+        ? Param | PathParamNames<`/${Rest}`>
+        : TPath extends `${string}:${infer Param}`
+          ? Param
+          : never;
+
+/**
+ * 경로 파라미터 객체 타입
+ */
+export type PathParams<TPath extends string> = {
+    [K in PathParamNames<TPath>]: string | number;
+};
+
+/**
+ * 엔드포인트의 타입 선언 추출
+ */
+type TypesOf<E> = E extends EndpointDefinition<HttpMethod, string, infer TTypes> ? TTypes : never;
+
+/**
+ * 엔드포인트 응답 타입
+ */
+export type EndpointResponse<E> = TypesOf<E> extends { response: infer R } ? R : unknown;
+
+/**
+ * 엔드포인트 요청 본문 타입
+ */
+export type EndpointBody<E> = TypesOf<E> extends { body: infer B } ? B : never;
+
+/**
+ * 엔드포인트 쿼리 파라미터 타입
+ */
+export type EndpointQuery<E> = TypesOf<E> extends { query: infer Q } ? Q : never;
+
+/**
+ * 엔드포인트 경로 파라미터 타입
+ */
+export type EndpointParams<E> = E extends EndpointDefinition<HttpMethod, infer TPath> ? PathParams<TPath> : never;
+
+/**
+ * 엔드포인트 정의 생성
+ * 타입 선언은 제네릭으로, 메서드와 경로는 인자로 받아 리터럴 타입을 유지
+ *
+ * @template TTypes - 요청/응답 타입 선언
+ *
+ * @example
+ * const CREATE = defineEndpoint<{ response: User; body: CreateUserRequest }>()({
+ *   method: 'POST',
+ *   path: '/users',
+ * });
+ */
+export function defineEndpoint<TTypes extends EndpointTypes = EndpointTypes>() {
+    return <const TMethod extends HttpMethod, const TPath extends string>(definition: {
+        method: TMethod;
+        path: TPath;
+        schema?: EndpointDefinition<TMethod, TPath, TTypes>['schema'];
+        httpCache?: boolean;
+    }): EndpointDefinition<TMethod, TPath, TTypes> => definition;
+}
+
+/**
+ * 경로의 `:param` 세그먼트를 실제 값으로 치환
+ *
+ * @param path - 엔드포인트 경로
+ * @param params - 경로 파라미터 값
+ * @returns 치환된 경로
+ *
+ * @example
+ * buildPath('/users/:id', { id: 'a b' }); // '/users/a%20b'
+ */
+export function buildPath(path: string, params: Record<string, string | number> = {}): string {
+    return path.replace(/:(\w+)/g, (_, name: string) => {
+        const value = params[name];
+
+        if (value === undefined) {
+            throw new Error(`경로 파라미터 "${name}"가 필요합니다. (${path})`);
+        }
+
+        return encodeURIComponent(String(value));
+    });
+}
@@ -0,0 +1,84 @@
+/**
+ * @file 파일 다운로드 유틸리티
+ * @description Content-Disposition 파일명 파싱 및 브라우저 파일 저장
+ *
+ * @example
+ * // 응답의 Content-Disposition 파일명으로 저장
+ * const file = await apiClient.download('/reports/export', { params: { format: 'csv' } });
+ * saveFile(file.blob, file.filename ?? 'report.csv');
+ */
+
+/**
+ * 다운로드 결과
+ */
+export interface DownloadResult {
+    /** 파일 데이터 */
+    blob: Blob;
+    /** Content-Disposition에서 읽은 파일명 (없으면 undefined) */
+    filename?: string;
+    /** 응답 Content-Type */
+    contentType: string;
+    /** 응답 헤더 */
+    headers: Headers;
+}
+
+/**
+ * Content-Disposition 헤더에서 파일명 추출
+ * RFC 6266의 `filename*` (RFC 5987 인코딩)을 `filename`보다 우선
+ *
+ * @param header - Content-Disposition 헤더 값
+ * @returns 파일명 (없으면 undefined)
+ *
+ * @example
+ * parseContentDisposition("attachment; filename*=UTF-8''%EB%B3%B4%EA%B3%A0%EC%84%9C.csv");
+ * // '보고서.csv'
+ * parseContentDisposition('attachment; filename="report.csv"');
+ * // 'report.csv'
+ */
+export function parseContentDisposition(header: string | null | undefined): string | undefined {
+    if (!header) {
+        return undefined;
+    }
+
+    const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(header);
+    if (extended) {
+        try {
+            return decodeURIComponent(extended[2].trim().replace(/^"|"$/g, ''));
+        } catch {
+            // 잘못된 인코딩이면 일반 filename으로 대체
+        }
+    }
+
+    const plain = /filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i.exec(header);
+    if (plain) {
+        const value = plain[2] !== undefined ? plain[2].replace(/\\(.)/g, '$1') : plain[1].trim();
+        return value || undefined;
+    }
+
+    return undefined;
+}
+
+/**
+ * Blob을 파일로 저장 (브라우저 다운로드 실행)
+ *
+ * @param blob - 저장할 데이터
+ * @param filename - 저장할 파일명
+ */
+export function saveFile(blob: Blob, filename: string): void {
+    if (typeof document === 'undefined') {
+        return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = filename;
+    anchor.style.display = 'none';
+
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+
+    // 다운로드가 시작된 뒤 URL 해제
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
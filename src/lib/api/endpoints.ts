@@ -6,6 +6,21 @@
  * 각 리소스별 엔드포인트를 중앙에서 관리합니다.
  */
 
+import { defineEndpoint } from './define-endpoint';
+import { stringifyQuery, type QueryStringOptions } from './query-string';
+import type {
+    AuthTokenResponse,
+    CreateUserRequest,
+    CsrfTokenResponse,
+    LoginRequest,
+    PaginatedResponse,
+    PaginationParams,
+    QueryParams,
+    RegisterRequest,
+    UpdateUserRequest,
+    User,
+} from './types';
+
 /**
  * API 기본 URL
  * 환경 변수에서 가져오며, 없을 경우 로컬 개발 서버 URL 사용
@@ -24,62 +39,104 @@ export const DEFAULT_HEADERS: HeadersInit = {
 
 /**
  * API 엔드포인트 상수
- * 각 리소스별 엔드포인트를 정의
+ * 각 리소스별 엔드포인트를 메서드, 경로, 요청/응답 타입과 함께 정의
  *
  * @example
  * // 사용 예시
- * import { ENDPOINTS } from '@/lib/api/endpoints';
- * const users = await apiClient.get(ENDPOINTS.USERS.LIST);
+ * import { ENDPOINTS, callEndpoint } from '@/lib/api';
+ * const user = await callEndpoint(ENDPOINTS.USERS.DETAIL, { params: { id } });
  */
 export const ENDPOINTS = {
     /** 인증 관련 엔드포인트 */
     AUTH: {
         /** 로그인 */
-        LOGIN: '/auth/login',
+        LOGIN: defineEndpoint<{ response: AuthTokenResponse; body: LoginRequest }>()({
+            method: 'POST',
+            path: '/auth/login',
+        }),
         /** 로그아웃 */
-        LOGOUT: '/auth/logout',
+        LOGOUT: defineEndpoint<{ response: null }>()({
+            method: 'POST',
+            path: '/auth/logout',
+        }),
         /** 회원가입 */
-        REGISTER: '/auth/register',
+        REGISTER: defineEndpoint<{ response: User; body: RegisterRequest }>()({
+            method: 'POST',
+            path: '/auth/register',
+        }),
         /** 토큰 갱신 */
-        REFRESH: '/auth/refresh',
+        REFRESH: defineEndpoint<{ response: AuthTokenResponse }>()({
+            method: 'POST',
+            path: '/auth/refresh',
+        }),
         /** 현재 사용자 정보 */
-        ME: '/auth/me',
+        ME: defineEndpoint<{ response: User }>()({
+            method: 'GET',
+            path: '/auth/me',
+        }),
+        /** CSRF 토큰 발급 (쿠키 세션 모드) */
+        CSRF: defineEndpoint<{ response: CsrfTokenResponse }>()({
+            method: 'GET',
+            path: '/auth/csrf',
+        }),
     },
 
     /** 사용자 관련 엔드포인트 */
     USERS: {
         /** 사용자 목록 조회 */
-        LIST: '/users',
+        LIST: defineEndpoint<{ response: PaginatedResponse<User>; query: PaginationParams }>()({
+            method: 'GET',
+            path: '/users',
+        }),
         /** 사용자 상세 조회 (id 파라미터 필요) */
-        DETAIL: (id: string) => `/users/${id}`,
+        DETAIL: defineEndpoint<{ response: User }>()({
+            method: 'GET',
+            path: '/users/:id',
+        }),
         /** 사용자 생성 */
-        CREATE: '/users',
+        CREATE: defineEndpoint<{ response: User; body: CreateUserRequest }>()({
+            method: 'POST',
+            path: '/users',
+        }),
         /** 사용자 수정 (id 파라미터 필요) */
-        UPDATE: (id: string) => `/users/${id}`,
+        UPDATE: defineEndpoint<{ response: User; body: UpdateUserRequest }>()({
+            method: 'PATCH',
+            path: '/users/:id',
+        }),
         /** 사용자 삭제 (id 파라미터 필요) */
-        DELETE: (id: string) => `/users/${id}`,
+        DELETE: defineEndpoint<{ response: null }>()({
+            method: 'DELETE',
+            path: '/users/:id',
+        }),
     },
 } as const;
 
 /**
  * 쿼리 파라미터를 URL에 추가하는 유틸리티 함수
+ * 배열, 날짜, 중첩 객체, null 값은 직렬화 옵션에 따라 처리 (query-string.ts 참고)
  *
- * @param endpoint - 기본 엔드포인트
+ * @param endpoint - 기본 엔드포인트 (이미 쿼리 문자열이 있으면 뒤에 이어 붙임)
  * @param params - 쿼리 파라미터 객체
+ * @param options - 직렬화 옵션 (기본: 배열 repeat, 객체 brackets, null 제외)
  * @returns 쿼리 문자열이 추가된 URL
  *
  * @example
- * const url = withQueryParams(ENDPOINTS.USERS.LIST, { page: 1, limit: 10 });
+ * const url = withQueryParams(ENDPOINTS.USERS.LIST.path, { page: 1, limit: 10 });
  * // 결과: '/users?page=1&limit=10'
+ *
+ * withQueryParams('/orders', { status: ['paid', 'shipped'] }, { arrayFormat: 'comma' });
+ * // 결과: '/orders?status=paid%2Cshipped'
  */
 export function withQueryParams(
     endpoint: string,
-    params: Record<string, string | number | boolean | undefined>
+    params: QueryParams,
+    options?: Partial<QueryStringOptions>
 ): string {
-    const filteredParams = Object.entries(params)
-        .filter(([, value]) => value !== undefined)
-        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
-        .join('&');
+    const query = stringifyQuery(params, options);
+
+    if (!query) {
+        return endpoint;
+    }
 
-    return filteredParams ? `${endpoint}?${filteredParams}` : endpoint;
+    return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${query}`;
 }
@@ -0,0 +1,349 @@
+/**
+ * @file API 에러 클래스
+ * @description API 호출 실패를 원인별로 구분하기 위한 에러 클래스 계층
+ *
+ * 계층 구조:
+ * - ApiError (기본 클래스)
+ *   - HttpError: 2xx 이외의 HTTP 응답 (서버 에러 코드, 필드 에러, 원본 본문 포함)
+ *     - RateLimitError: 429 응답 (Retry-After 대기 시간 포함)
+ *   - NetworkError: 서버에 도달하지 못함 (오프라인, DNS, CORS 등)
+ *   - TimeoutError: 지정된 시간 안에 응답을 받지 못함
+ *   - AbortError: 호출자가 요청을 취소함
+ *   - ValidationError: 응답 본문이 스키마와 일치하지 않음
+ *
+ * 에러의 message에는 서버가 보낸 원본 메시지가 유지되며,
+ * 사용자에게 보여줄 문구는 getFriendlyErrorMessage()로 별도 생성합니다.
+ *
+ * @example
+ * try {
+ *   await callEndpoint(ENDPOINTS.USERS.CREATE, { body });
+ * } catch (error) {
+ *   if (isHttpError(error) && error.status === 422) {
+ *     form.setErrors(error.fieldErrors);
+ *     return;
+ *   }
+ *   if (isAbortError(error)) return; // 컴포넌트 언마운트 등으로 취소됨
+ *   toast.error(getFriendlyErrorMessage(error));
+ * }
+ */
+
+import type { ServerErrorBody } from './types';
+import { formatIssuePath, type SchemaIssue } from './validation';
+
+/**
+ * 필드별 에러 메시지 (필드 이름 → 메시지 목록)
+ */
+export type FieldErrors = Record<string, string[]>;
+
+/**
+ * 요청 ID를 담는 응답 헤더
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * ApiError 공통 생성 옵션
+ */
+interface ApiErrorOptions {
+    /** HTTP 상태 코드 (응답이 없으면 0) */
+    status?: number;
+    /** 서버 에러 코드 */
+    code?: string;
+    /** 요청 ID (서버 로그 추적용) */
+    requestId?: string;
+    /** 원인 에러 */
+    cause?: unknown;
+}
+
+/**
+ * API 에러 기본 클래스
+ * API 호출 과정에서 발생하는 모든 에러의 공통 부모
+ */
+export class ApiError extends Error {
+    /** HTTP 상태 코드 (응답을 받지 못한 경우 0) */
+    readonly status: number;
+    /** 서버 에러 코드 (예: 'USER_NOT_FOUND') */
+    readonly code?: string;
+    /** 요청 ID (서버 로그 추적용) */
+    readonly requestId?: string;
+    /** 요청에 사용한 멱등성 키 (ApiClient가 설정) */
+    idempotencyKey?: string;
+    /** 클라이언트가 보낸 요청 ID (서버가 요청 ID를 돌려주지 않았을 때 추적용, ApiClient가 설정) */
+    clientRequestId?: string;
+    /** W3C trace ID (ApiClient가 설정) */
+    traceId?: string;
+
+    constructor(message: string, options: ApiErrorOptions = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'ApiError';
+        this.status = options.status ?? 0;
+        this.code = options.code;
+        this.requestId = options.requestId;
+    }
+}
+
+/**
+ * HTTP 에러
+ * 서버가 2xx 이외의 상태 코드로 응답한 경우 발생
+ */
+export class HttpError extends ApiError {
+    /** 필드별 에러 메시지 (폼 검증 실패 등) */
+    readonly fieldErrors: FieldErrors;
+    /** 파싱된 원본 응답 본문 */
+    readonly body: unknown;
+    /** 응답 헤더 (Retry-After 등 참조용) */
+    readonly headers: Headers;
+    /** HTTP 메서드 */
+    readonly method: string;
+    /** 요청 URL */
+    readonly url: string;
+    /** 실패한 요청에 보낸 헤더 (인증 전략이 거부된 토큰을 확인할 때 사용) */
+    readonly requestHeaders: Headers;
+
+    constructor(params: {
+        status: number;
+        body: unknown;
+        headers: Headers;
+        method: string;
+        url: string;
+        requestHeaders?: HeadersInit;
+    }) {
+        const parsed = parseServerErrorBody(params.body);
+
+        super(parsed.message ?? `요청이 실패했습니다. (HTTP ${params.status})`, {
+            status: params.status,
+            code: parsed.code,
+            requestId: params.headers.get(REQUEST_ID_HEADER) ?? parsed.requestId,
+        });
+        this.name = 'HttpError';
+        this.fieldErrors = parsed.fieldErrors;
+        this.body = params.body;
+        this.headers = params.headers;
+        this.method = params.method;
+        this.url = params.url;
+        this.requestHeaders = new Headers(params.requestHeaders);
+    }
+}
+
+/**
+ * 요청 횟수 초과 에러
+ * 서버가 429 Too Many Requests로 응답한 경우 발생
+ */
+export class RateLimitError extends HttpError {
+    /** Retry-After 헤더의 대기 시간 (밀리초, 헤더가 없으면 null) */
+    readonly retryAfterMs: number | null;
+
+    constructor(params: ConstructorParameters<typeof HttpError>[0] & { retryAfterMs: number | null }) {
+        super(params);
+        this.name = 'RateLimitError';
+        this.retryAfterMs = params.retryAfterMs;
+    }
+}
+
+/**
+ * 네트워크 에러
+ * 요청이 서버에 도달하지 못한 경우 발생 (오프라인, DNS 실패, CORS 차단 등)
+ */
+export class NetworkError extends ApiError {
+    constructor(cause?: unknown) {
+        super('네트워크에 연결할 수 없습니다.', { cause });
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * 요청 타임아웃 에러
+ * 지정된 시간 안에 응답(본문 포함)을 받지 못한 경우 발생
+ */
+export class TimeoutError extends ApiError {
+    /** 적용된 타임아웃 (밀리초) */
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super(`요청 시간이 초과되었습니다. (${timeoutMs}ms)`);
+        this.name = 'TimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * 요청 취소 에러
+ * 호출자가 전달한 AbortSignal로 요청이 취소된 경우 발생
+ */
+export class AbortError extends ApiError {
+    /** AbortSignal에 전달된 취소 사유 */
+    readonly reason: unknown;
+
+    constructor(reason?: unknown) {
+        super('요청이 취소되었습니다.');
+        this.name = 'AbortError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * 응답 스키마 검증 에러
+ * 응답 본문이 요청/엔드포인트에 지정된 스키마와 일치하지 않는 경우 발생
+ */
+export class ValidationError extends ApiError {
+    /** 검증 실패 항목 */
+    readonly issues: SchemaIssue[];
+    /** 실패한 값의 경로 목록 (예: 'items[0].email') */
+    readonly paths: string[];
+    /** 검증에 실패한 원본 응답 데이터 */
+    readonly data: unknown;
+    /** HTTP 메서드 */
+    readonly method: string;
+    /** 요청 URL */
+    readonly url: string;
+
+    constructor(issues: SchemaIssue[], data: unknown, method: string, url: string, requestId?: string) {
+        const paths = issues.map((issue) => formatIssuePath(issue.path));
+        super(`응답 데이터가 스키마와 일치하지 않습니다. (${method} ${url}: ${paths.join(', ')})`, { requestId });
+        this.name = 'ValidationError';
+        this.issues = issues;
+        this.paths = paths;
+        this.data = data;
+        this.method = method;
+        this.url = url;
+    }
+}
+
+// ============================================================
+// 타입 가드
+// ============================================================
+
+/**
+ * API 에러 여부 확인 (모든 하위 클래스 포함)
+ */
+export function isApiError(error: unknown): error is ApiError {
+    return error instanceof ApiError;
+}
+
+/**
+ * HTTP 에러 여부 확인
+ * @param status - 지정하면 해당 상태 코드인 경우에만 true
+ */
+export function isHttpError(error: unknown, status?: number): error is HttpError {
+    return error instanceof HttpError && (status === undefined || error.status === status);
+}
+
+/**
+ * 요청 횟수 초과(429) 에러 여부 확인
+ */
+export function isRateLimitError(error: unknown): error is RateLimitError {
+    return error instanceof RateLimitError;
+}
+
+/**
+ * 네트워크 에러 여부 확인
+ */
+export function isNetworkError(error: unknown): error is NetworkError {
+    return error instanceof NetworkError;
+}
+
+/**
+ * 타임아웃 에러 여부 확인
+ */
+export function isTimeoutError(error: unknown): error is TimeoutError {
+    return error instanceof TimeoutError;
+}
+
+/**
+ * 취소 에러 여부 확인
+ */
+export function isAbortError(error: unknown): error is AbortError {
+    return error instanceof AbortError;
+}
+
+/**
+ * 스키마 검증 에러 여부 확인
+ */
+export function isValidationError(error: unknown): error is ValidationError {
+    return error instanceof ValidationError;
+}
+
+// ============================================================
+// 에러 본문 파싱 / 사용자 메시지
+// ============================================================
+
+/**
+ * 정규화된 서버 에러 본문
+ */
+interface ParsedServerError {
+    message?: string;
+    code?: string;
+    requestId?: string;
+    fieldErrors: FieldErrors;
+}
+
+/**
+ * 서버 에러 본문의 필드 에러를 FieldErrors로 정규화
+ * `{ field: 'msg' }`, `{ field: ['msg'] }`, `[{ field, message }]` 형식을 지원
+ */
+function normalizeFieldErrors(errors: ServerErrorBody['errors']): FieldErrors {
+    const result: FieldErrors = {};
+
+    if (Array.isArray(errors)) {
+        errors.forEach(({ field, message }) => {
+            (result[field] ??= []).push(message);
+        });
+        return result;
+    }
+
+    if (errors && typeof errors === 'object') {
+        Object.entries(errors).forEach(([field, messages]) => {
+            result[field] = Array.isArray(messages) ? messages : [messages];
+        });
+    }
+
+    return result;
+}
+
+/**
+ * 서버 에러 본문 파싱
+ * 알 수 없는 형식이면 빈 값을 반환 (원본은 HttpError.body로 보존)
+ */
+function parseServerErrorBody(body: unknown): ParsedServerError {
+    if (!body || typeof body !== 'object') {
+        return { fieldErrors: {} };
+    }
+
+    const { message, code, requestId, errors } = body as ServerErrorBody;
+
+    return {
+        message: typeof message === 'string' && message ? message : undefined,
+        code: typeof code === 'string' ? code : undefined,
+        requestId: typeof requestId === 'string' ? requestId : undefined,
+        fieldErrors: normalizeFieldErrors(errors),
+    };
+}
+
+/**
+ * 상태 코드별 사용자 안내 문구
+ */
+const FRIENDLY_STATUS_MESSAGES: Record<number, string> = {
+    401: '인증이 필요합니다. 다시 로그인해주세요.',
+    403: '접근 권한이 없습니다.',
+    404: '요청한 리소스를 찾을 수 없습니다.',
+    429: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+    500: '서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.',
+};
+
+/**
+ * 사용자에게 보여줄 에러 메시지 생성
+ * 에러 객체의 원본 메시지는 변경하지 않음
+ *
+ * @param error - catch한 에러
+ * @returns 사용자 안내 문구
+ */
+export function getFriendlyErrorMessage(error: unknown): string {
+    if (error instanceof HttpError) {
+        return FRIENDLY_STATUS_MESSAGES[error.status] ?? error.message;
+    }
+
+    if (error instanceof ApiError) {
+        return error.message;
+    }
+
+    return '알 수 없는 오류가 발생했습니다.';
+}
@@ -0,0 +1,98 @@
+/**
+ * @file API 이벤트 모듈
+ * @description ApiClient 내부 상태 변화를 외부에 알리기 위한 타입 안전한 이벤트 에미터
+ *
+ * @example
+ * const unsubscribe = apiClient.on('sessionExpired', () => {
+ *   router.replace('/login');
+ * });
+ *
+ * // 개발자 도구에 재시도 표시
+ * apiClient.on('retry', ({ method, endpoint, attempt, delayMs }) => {
+ *   devtools.log(`${method} ${endpoint} 재시도 #${attempt} (${delayMs}ms 후)`);
+ * });
+ *
+ * // 구독 해제
+ * unsubscribe();
+ */
+
+import { logger } from '@/lib/logger';
+import type { ValidationError } from './errors';
+import type { RetryInfo } from './retry';
+import type { RequestMetrics } from './tracing';
+
+const log = logger.child('api');
+
+/**
+ * ApiClient가 발생시키는 이벤트 맵
+ * 키는 이벤트 이름, 값은 리스너에 전달되는 페이로드 타입
+ */
+export interface ApiClientEvents {
+    /** 토큰 갱신에 실패하여 세션이 만료됨 */
+    sessionExpired: {
+        /** 토큰 갱신 실패 원인 */
+        error: unknown;
+    };
+    /** 인증 토큰이 설정/갱신/제거됨 */
+    authTokenChanged: {
+        /** 새 토큰 (로그아웃 또는 갱신 실패 시 null) */
+        token: string | null;
+    };
+    /** 실패한 요청을 재시도하기 직전 */
+    retry: RetryInfo;
+    /** 응답 데이터가 스키마와 일치하지 않음 (report 모드에서도 발생) */
+    validationError: {
+        /** 검증 에러 (실패 경로 포함) */
+        error: ValidationError;
+    };
+    /** HTTP 요청 하나가 끝남 (성공/실패 모두, 재시도는 시도마다 발생) */
+    metrics: RequestMetrics;
+}
+
+/**
+ * 이벤트 리스너 타입
+ */
+export type EventListener<P> = (payload: P) => void;
+
+/**
+ * 타입 안전한 이벤트 에미터
+ *
+ * @template Events - 이벤트 이름과 페이로드 타입 맵
+ */
+export class EventEmitter<Events extends object> {
+    /** 이벤트별 리스너 목록 */
+    private listeners: { [K in keyof Events]?: Set<EventListener<Events[K]>> } = {};
+
+    /**
+     * 이벤트 구독
+     * @returns 구독 해제 함수
+     */
+    on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+        const set = this.listeners[event] ?? new Set();
+        set.add(listener);
+        this.listeners[event] = set;
+
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * 이벤트 구독 해제
+     */
+    off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+        this.listeners[event]?.delete(listener);
+    }
+
+    /**
+     * 이벤트 발생
+     * 리스너에서 발생한 에러는 다른 리스너 실행에 영향을 주지 않음
+     */
+    emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        this.listeners[event]?.forEach((listener) => {
+            try {
+                listener(payload);
+            } catch (error) {
+                log.error('이벤트 리스너 실행 실패', { event: String(event), error });
+            }
+        });
+    }
+}
@@ -0,0 +1,338 @@
+/**
+ * @file HTTP 조건부 요청 캐시
+ * @description ETag/Last-Modified 기반 응답 캐시 (304 응답을 캐시된 본문으로 대체)
+ *
+ * GET 요청의 JSON/텍스트 응답 중 ETag 또는 Last-Modified 헤더가 있는 응답을 저장하고,
+ * 다음 요청에 If-None-Match/If-Modified-Since 헤더를 붙입니다.
+ * 항목은 URL, 응답 형식, 인증 토큰(해시)으로 구분하므로 다른 사용자의 응답을 재사용하지 않습니다.
+ * 서버가 304를 반환하면 ApiClient가 저장된 본문으로 200 응답을 만들어 인터셉터에 전달합니다.
+ *
+ * - 항목 수와 전체 크기 제한 (초과 시 가장 오래 사용하지 않은 항목부터 삭제)
+ * - persist 옵션으로 IndexedDB에 저장하여 새로고침 후에도 유지
+ * - exclude 옵션 또는 요청별 httpCache: false로 캐시 제외
+ *
+ * @example
+ * const client = createApiClient({
+ *   httpCache: { maxEntries: 50, maxBytes: 2 * 1024 * 1024, persist: true, exclude: ['/auth'] },
+ * });
+ *
+ * // 요청별 제외
+ * await client.get('/users/me', { httpCache: false });
+ */
+
+import { getDB } from '@/lib/indexed-db';
+import { logger } from '@/lib/logger';
+
+const log = logger.child('httpCache');
+
+/**
+ * IndexedDB 객체 저장소 이름
+ */
+const STORE_NAME = 'responses';
+
+/**
+ * 캐시 항목
+ */
+export interface HttpCacheEntry {
+    /** 캐시 키 (createHttpCacheKey 참고) */
+    key: string;
+    /** 파싱된 응답 본문 */
+    data: unknown;
+    /** ETag 응답 헤더 */
+    etag: string | null;
+    /** Last-Modified 응답 헤더 */
+    lastModified: string | null;
+    /** 응답 헤더 (304 응답에서 200 응답을 복원할 때 사용) */
+    headers: [string, string][];
+    /** 대략적인 크기 (직렬화한 본문 길이) */
+    size: number;
+    /** 저장 시각 (타임스탬프) */
+    storedAt: number;
+}
+
+/**
+ * HttpCache 옵션
+ */
+export interface HttpCacheOptions {
+    /** 최대 항목 수 (기본: 100) */
+    maxEntries?: number;
+    /** 최대 전체 크기 (직렬화한 본문 길이 합계, 기본: 5MB) */
+    maxBytes?: number;
+    /** IndexedDB 저장 여부 (문자열이면 데이터베이스 이름, 기본: false) */
+    persist?: boolean | string;
+    /** 캐시하지 않을 엔드포인트 (문자열은 경로 프리픽스, 정규식은 경로 전체에 대해 검사) */
+    exclude?: (string | RegExp)[];
+}
+
+/**
+ * 문자열 해시 (FNV-1a 32비트, 16진수)
+ * 캐시 키와 IndexedDB에 토큰 원문을 남기지 않기 위해 사용
+ */
+function hashString(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 캐시 키 생성
+ * 같은 URL이라도 인증 토큰이나 응답 형식이 다르면 다른 항목으로 저장
+ *
+ * @param url - 요청 URL (쿼리 문자열 포함)
+ * @param responseType - 응답 파싱 방식 ('json' | 'text')
+ * @param token - 요청에 사용하는 인증 토큰 (없으면 비로그인 요청으로 구분)
+ *
+ * @example
+ * createHttpCacheKey('https://api.example.com/users', 'json', null);
+ * // 'json anonymous https://api.example.com/users'
+ */
+export function createHttpCacheKey(url: string, responseType: string, token: string | null): string {
+    return `${responseType} ${token ? hashString(token) : 'anonymous'} ${url}`;
+}
+
+/**
+ * 캐시 가능한 응답 헤더에서 캐시 항목 생성
+ * 검증자(ETag, Last-Modified)가 없거나 no-store 응답이면 null
+ */
+function createEntry(key: string, data: unknown, headers: Headers): HttpCacheEntry | null {
+    const etag = headers.get('ETag');
+    const lastModified = headers.get('Last-Modified');
+    const cacheControl = headers.get('Cache-Control') ?? '';
+
+    if ((!etag && !lastModified) || /no-store/i.test(cacheControl)) {
+        return null;
+    }
+
+    let size: number;
+    try {
+        size = typeof data === 'string' ? data.length : (JSON.stringify(data)?.length ?? 0);
+    } catch {
+        return null;
+    }
+
+    const entries: [string, string][] = [];
+    headers.forEach((value, name) => entries.push([name, value]));
+
+    return {
+        key,
+        data: structuredClone(data),
+        etag,
+        lastModified,
+        headers: entries,
+        size,
+        storedAt: Date.now(),
+    };
+}
+
+/**
+ * HTTP 조건부 요청 캐시
+ * 메모리의 LRU 목록이 기준이며, persist 옵션을 켜면 IndexedDB에 같은 내용을 반영
+ */
+export class HttpCache {
+    private options: Required<Omit<HttpCacheOptions, 'persist'>> & { dbName: string | null };
+
+    /** 캐시 키별 항목 (삽입 순서 = 최근 사용 순서) */
+    private entries = new Map<string, HttpCacheEntry>();
+
+    /** 전체 크기 */
+    private totalBytes = 0;
+
+    /** IndexedDB 항목 로드 Promise (처음 조회할 때 한 번 실행) */
+    private hydration: Promise<void> | null = null;
+
+    constructor(options: HttpCacheOptions = {}) {
+        const { persist = false, ...rest } = options;
+
+        this.options = {
+            maxEntries: 100,
+            maxBytes: 5 * 1024 * 1024,
+            exclude: [],
+            ...rest,
+            dbName:
+                persist && typeof indexedDB !== 'undefined'
+                    ? typeof persist === 'string'
+                        ? persist
+                        : 'api-http-cache'
+                    : null,
+        };
+    }
+
+    /**
+     * 엔드포인트가 캐시 대상인지 확인
+     * @param endpoint - 기본 URL을 제외한 경로 (예: '/users')
+     */
+    isCacheable(endpoint: string): boolean {
+        const path = endpoint.split('?')[0];
+
+        return !this.options.exclude.some((pattern) =>
+            typeof pattern === 'string'
+                ? path === pattern || path.startsWith(`${pattern.replace(/\/$/, '')}/`)
+                : pattern.test(path)
+        );
+    }
+
+    /**
+     * 캐시 항목 조회 (최근 사용으로 표시)
+     * 반환된 항목의 data는 호출자가 변경해도 캐시에 영향이 없도록 복사본
+     */
+    async get(key: string): Promise<HttpCacheEntry | undefined> {
+        await this.hydrate();
+
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        return { ...entry, data: structuredClone(entry.data) };
+    }
+
+    /**
+     * 응답 저장
+     * 검증자가 없는 응답은 저장하지 않고 기존 항목을 삭제 (서버가 더 이상 ETag를 보내지 않는 경우)
+     *
+     * @param key - 캐시 키 (createHttpCacheKey로 생성)
+     * @param data - 파싱된 응답 본문
+     * @param headers - 응답 헤더
+     */
+    set(key: string, data: unknown, headers: Headers): void {
+        const entry = createEntry(key, data, headers);
+
+        if (!entry || entry.size > this.options.maxBytes) {
+            this.delete(key);
+            return;
+        }
+
+        this.put(entry);
+        this.persist((db) => db.put(STORE_NAME, entry, key));
+    }
+
+    /**
+     * 304 응답의 헤더로 항목 갱신 (새 ETag, 캐시 헤더 등)
+     *
+     * @param entry - 요청에 사용한 캐시 항목
+     * @param headers - 304 응답 헤더
+     * @returns 저장된 헤더에 304 응답 헤더를 덮어쓴 헤더
+     */
+    revalidate(entry: HttpCacheEntry, headers: Headers): Headers {
+        const merged = new Headers(entry.headers);
+        headers.forEach((value, name) => merged.set(name, value));
+
+        const current = this.entries.get(entry.key);
+        if (current) {
+            const updated: HttpCacheEntry = {
+                ...current,
+                etag: merged.get('ETag'),
+                lastModified: merged.get('Last-Modified'),
+                headers: [...merged.entries()],
+                storedAt: Date.now(),
+            };
+
+            this.entries.set(entry.key, updated);
+            this.persist((db) => db.put(STORE_NAME, updated, entry.key));
+        }
+
+        return merged;
+    }
+
+    /**
+     * 항목 삭제
+     */
+    delete(key: string): void {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+
+        this.entries.delete(key);
+        this.totalBytes -= entry.size;
+        this.persist((db) => db.delete(STORE_NAME, key));
+    }
+
+    /**
+     * 모든 항목 삭제 (로그아웃, 토큰 변경 등 사용자가 바뀔 수 있을 때)
+     */
+    clear(): void {
+        this.entries.clear();
+        this.totalBytes = 0;
+        this.persist((db) => db.clear(STORE_NAME));
+    }
+
+    /**
+     * 현재 항목 수와 전체 크기
+     */
+    getStats(): { entries: number; bytes: number } {
+        return { entries: this.entries.size, bytes: this.totalBytes };
+    }
+
+    /**
+     * 메모리 목록에 항목 추가 후 제한을 넘은 항목 삭제
+     */
+    private put(entry: HttpCacheEntry): void {
+        const previous = this.entries.get(entry.key);
+        if (previous) {
+            this.entries.delete(entry.key);
+            this.totalBytes -= previous.size;
+        }
+
+        this.entries.set(entry.key, entry);
+        this.totalBytes += entry.size;
+
+        // Map은 삽입 순서를 유지하므로 첫 항목이 가장 오래 사용하지 않은 항목
+        for (const key of this.entries.keys()) {
+            if (this.entries.size <= this.options.maxEntries && this.totalBytes <= this.options.maxBytes) {
+                break;
+            }
+            this.delete(key);
+        }
+    }
+
+    /**
+     * IndexedDB에 저장된 항목을 메모리 목록으로 로드
+     * 저장 시각 순으로 추가하므로 제한을 넘은 오래된 항목은 IndexedDB에서도 삭제됨
+     * 캐시 키가 없는 이전 형식(URL 기준) 항목은 사용자를 구분할 수 없으므로 삭제
+     */
+    private hydrate(): Promise<void> {
+        const { dbName } = this.options;
+        if (!dbName) {
+            return Promise.resolve();
+        }
+
+        this.hydration ??= getDB(dbName, STORE_NAME, 1)
+            .then((db) => db.getAll(STORE_NAME) as Promise<(HttpCacheEntry & { url?: string })[]>)
+            .then((stored) => {
+                stored.forEach(({ key, url }) => {
+                    if (typeof key !== 'string' && url) {
+                        this.persist((db) => db.delete(STORE_NAME, url));
+                    }
+                });
+
+                stored
+                    .filter((entry) => typeof entry.key === 'string' && !this.entries.has(entry.key))
+                    .sort((a, b) => a.storedAt - b.storedAt)
+                    .forEach((entry) => this.put(entry));
+            })
+            .catch((error: unknown) => {
+                log.warn('저장된 캐시를 불러오지 못했습니다.', { error });
+            });
+
+        return this.hydration;
+    }
+
+    /**
+     * IndexedDB 변경 실행 (실패해도 메모리 캐시는 계속 동작)
+     */
+    private persist(operation: (db: Awaited<ReturnType<typeof getDB>>) => Promise<unknown>): void {
+        const { dbName } = this.options;
+        if (!dbName) return;
+
+        getDB(dbName, STORE_NAME, 1)
+            .then(operation)
+            .catch((error: unknown) => {
+                log.warn('캐시를 저장하지 못했습니다.', { error });
+            });
+    }
+}
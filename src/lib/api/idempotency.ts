@@ -0,0 +1,139 @@
+/**
+ * @file 멱등성 키
+ * @description 비멱등 요청(POST, PATCH)의 Idempotency-Key 헤더 생성과 동일 변경 요청의 중복 전송 방지
+ *
+ * - 키는 논리적인 호출 하나에 한 번 생성되어 재시도와 401 토큰 갱신 후 재요청에 그대로 사용됨
+ * - 같은 메서드, 엔드포인트, 쿼리, 본문(키를 지정했다면 키까지)의 변경 요청이 진행 중이면
+ *   새로 보내지 않고 진행 중인 요청의 결과를 공유
+ * - 함께 기다리는 호출은 먼저 보낸 호출의 signal, 헤더, 타임아웃 등 옵션을 그대로 따름
+ *   (먼저 보낸 호출이 취소되면 함께 실패하므로, 따로 취소해야 하는 호출은 dedupe: false로 전송)
+ * - 실패한 요청의 키는 ApiError.idempotencyKey로 확인 (고객 문의, 서버 로그 추적용)
+ *
+ * @example
+ * // 호출자가 키를 직접 관리 (사용자가 '다시 시도'를 눌러도 같은 키로 전송)
+ * const key = useRef(createIdempotencyKey());
+ * await apiClient.post('/payments', body, { idempotencyKey: key.current });
+ *
+ * // 실패한 요청의 키
+ * catch (error) {
+ *   if (isApiError(error)) reportIssue({ idempotencyKey: error.idempotencyKey });
+ * }
+ */
+
+/**
+ * 멱등성 키 요청 헤더
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * 멱등성 키 설정
+ */
+export interface IdempotencyOptions {
+    /** 키를 자동으로 붙일 메서드 (기본: POST, PATCH) */
+    methods: string[];
+    /** 키를 담을 헤더 이름 (기본: 'Idempotency-Key') */
+    header: string;
+    /** 진행 중인 동일 변경 요청(POST, PUT, PATCH, DELETE)의 중복 전송 방지 여부 (기본: true) */
+    dedupe: boolean;
+    /** 키 생성 함수 (기본: createIdempotencyKey) */
+    generateKey: () => string;
+}
+
+/**
+ * 중복 전송 방지 대상 메서드
+ */
+const MUTATION_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * 멱등성 키 생성 (UUID v4)
+ * crypto.randomUUID를 사용할 수 없는 환경(비보안 컨텍스트 등)에서는 getRandomValues로 생성
+ */
+export function createIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+
+    const bytes = new Uint8Array(16);
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+        crypto.getRandomValues(bytes);
+    } else {
+        bytes.forEach((_, index) => {
+            bytes[index] = Math.floor(Math.random() * 256);
+        });
+    }
+
+    // RFC 4122 버전(4)과 variant 비트
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+    const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * 기본 멱등성 키 설정
+ */
+export const DEFAULT_IDEMPOTENCY_OPTIONS: IdempotencyOptions = {
+    methods: ['POST', 'PATCH'],
+    header: IDEMPOTENCY_KEY_HEADER,
+    dedupe: true,
+    generateKey: createIdempotencyKey,
+};
+
+/**
+ * 기본 설정에 부분 설정을 덮어써 최종 설정 생성
+ *
+ * @param base - 기준 설정 (null이면 비활성화 상태)
+ * @param override - 덮어쓸 설정 (false면 비활성화)
+ */
+export function resolveIdempotencyOptions(
+    base: IdempotencyOptions | null,
+    override: Partial<IdempotencyOptions> | false | undefined
+): IdempotencyOptions | null {
+    if (override === false) return null;
+    if (override === undefined) return base;
+    return { ...(base ?? DEFAULT_IDEMPOTENCY_OPTIONS), ...override };
+}
+
+/**
+ * 중복 전송 판단에 사용할 요청 식별 문자열
+ * 호출자가 키를 지정하면 키도 비교하므로 다른 키로 보낸 같은 요청은 각각 전송됨
+ * 본문을 비교할 수 없는 요청(FormData, Blob, 스트림 등)은 호출자가 키를 지정한 경우에만 식별
+ *
+ * @param method - HTTP 메서드
+ * @param endpoint - API 엔드포인트
+ * @param params - 쿼리 파라미터
+ * @param body - 요청 본문
+ * @param explicitKey - 호출자가 지정한 멱등성 키 (본문을 비교할 수 없으면 키만으로 같은 작업인지 판단)
+ * @returns 식별 문자열 (중복 전송 방지 대상이 아니면 null)
+ */
+export function getMutationLockKey(
+    method: string,
+    endpoint: string,
+    params: unknown,
+    body: unknown,
+    explicitKey?: string
+): string | null {
+    if (!MUTATION_METHODS.includes(method)) {
+        return null;
+    }
+
+    const isPlain =
+        body === undefined ||
+        body === null ||
+        typeof body !== 'object' ||
+        Array.isArray(body) ||
+        Object.getPrototypeOf(body) === Object.prototype;
+
+    const keyPart = explicitKey ? ` key:${explicitKey}` : '';
+
+    if (!isPlain) {
+        return explicitKey ? `${method} ${endpoint}${keyPart}` : null;
+    }
+
+    try {
+        return `${method} ${endpoint} ${JSON.stringify(params ?? null)} ${JSON.stringify(body ?? null)}${keyPart}`;
+    } catch {
+        return null;
+    }
+}
@@ -3,13 +3,128 @@
  * @description API 관련 모듈을 한 곳에서 export
  */
 
-export { apiClient, default } from './client';
+export { apiClient, createApiClient, ApiClient, default } from './client';
+export type { AuthRefreshHandler, AuthRefreshOptions, ApiClientOptions, DownloadOptions } from './client';
+export {
+    TokenSource,
+    bearerAuth,
+    apiKeyAuth,
+    cookieSessionAuth,
+    noAuth,
+    DEFAULT_COOKIE_SESSION_OPTIONS,
+} from './auth';
+export type { AuthStrategy, AuthRequestInfo, AuthContext, CookieSessionOptions, TokenListener } from './auth';
+export {
+    IDEMPOTENCY_KEY_HEADER,
+    DEFAULT_IDEMPOTENCY_OPTIONS,
+    createIdempotencyKey,
+} from './idempotency';
+export type { IdempotencyOptions } from './idempotency';
+export {
+    TRACEPARENT_HEADER,
+    DEFAULT_TRACING_OPTIONS,
+    createTraceId,
+    createSpanId,
+    createRequestId,
+    formatTraceparent,
+} from './tracing';
+export type { TracingOptions, RequestMetrics } from './tracing';
+export { RateLimiter, DEFAULT_RATE_LIMIT_OPTIONS } from './rate-limiter';
+export type { RequestPriority, RateLimitOptions, RateLimiterState, HostQueueState } from './rate-limiter';
+export { HttpCache, createHttpCacheKey } from './http-cache';
+export type { HttpCacheEntry, HttpCacheOptions } from './http-cache';
+export { OfflineQueue, offlineQueue } from './offline-queue';
+export type {
+    QueuedMutation,
+    QueueableMethod,
+    ConflictResolution,
+    MutationOutcome,
+    OfflineQueueState,
+    OfflineQueueOptions,
+} from './offline-queue';
+export { parseContentDisposition, saveFile } from './download';
+export type { DownloadResult } from './download';
+export type { TransferProgress, TransferDirection, ProgressHandler } from './progress';
+export { parseSse, parseNdjson, DEFAULT_STREAM_RECONNECT } from './stream';
+export type { StreamFormat, StreamOptions, StreamReconnectOptions, ServerSentEvent } from './stream';
+export {
+    ApiError,
+    HttpError,
+    RateLimitError,
+    NetworkError,
+    TimeoutError,
+    AbortError,
+    ValidationError,
+    REQUEST_ID_HEADER,
+    isApiError,
+    isHttpError,
+    isRateLimitError,
+    isNetworkError,
+    isTimeoutError,
+    isAbortError,
+    isValidationError,
+    getFriendlyErrorMessage,
+} from './errors';
+export type { FieldErrors } from './errors';
+export { createSchema, formatIssuePath } from './validation';
+export type { ResponseSchema, SchemaIssue, SchemaParseResult, ValidationMode } from './validation';
+export { DEFAULT_RETRY_POLICY, parseRetryAfter } from './retry';
+export type { RetryPolicy, RetryInfo } from './retry';
+export type { ApiClientEvents, EventListener } from './events';
 export { API_BASE_URL, ENDPOINTS, withQueryParams } from './endpoints';
+export { stringifyQuery, parseQuery, DEFAULT_QUERY_STRING_OPTIONS } from './query-string';
+export type {
+    QueryValue,
+    ParsedQueryValue,
+    ArrayFormat,
+    ObjectFormat,
+    NullFormat,
+    QueryStringOptions,
+    ParseQueryOptions,
+} from './query-string';
+export { defineEndpoint, buildPath } from './define-endpoint';
+export type {
+    HttpMethod,
+    EndpointTypes,
+    EndpointDefinition,
+    EndpointResponse,
+    EndpointBody,
+    EndpointQuery,
+    EndpointParams,
+    PathParams,
+} from './define-endpoint';
+export { callEndpoint } from './call-endpoint';
+export type { CallEndpointOptions, CallEndpointArgs } from './call-endpoint';
+export {
+    InterceptorManager,
+    requestLoggingInterceptor,
+    apiErrorInterceptor,
+    createApiError,
+} from './interceptors';
+export type {
+    ApiInterceptors,
+    InterceptorHandle,
+    InterceptorFulfilled,
+    InterceptorRejected,
+} from './interceptors';
 export type {
     ApiResponse,
-    ApiError,
+    ServerErrorBody,
     RequestConfig,
+    RequestOptions,
+    NextCacheOptions,
+    ResponseType,
+    QueryParams,
+    AuthTokenResponse,
+    CsrfTokenResponse,
     PaginationParams,
     PaginatedResponse,
+    CursorPaginationParams,
+    CursorPaginatedResponse,
     BaseEntity,
+    User,
+    LoginRequest,
+    RegisterRequest,
+    CreateUserRequest,
+    UpdateUserRequest,
 } from './types';
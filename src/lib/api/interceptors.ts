@@ -0,0 +1,196 @@
+/**
+ * @file API 인터셉터 모듈
+ * @description ApiClient의 요청/응답 파이프라인에 끼워 넣을 수 있는 인터셉터 체인
+ *
+ * 특징:
+ * - 등록 순서대로 실행되는 체인 (요청 → 응답 모두 동일)
+ * - 동기/비동기 핸들러 모두 지원
+ * - onRejected 핸들러로 에러 변환 또는 복구 가능
+ * - eject() 핸들로 개별 인터셉터 제거
+ *
+ * @example
+ * // 트레이싱 헤더 추가
+ * const handle = apiClient.interceptors.request.use((config) => ({
+ *   ...config,
+ *   headers: { ...config.headers, 'X-Tenant-Id': tenantId },
+ * }));
+ *
+ * // 응답 데이터 변환
+ * apiClient.interceptors.response.use((response) => ({
+ *   ...response,
+ *   data: camelizeKeys(response.data),
+ * }));
+ *
+ * // 더 이상 필요 없을 때 제거
+ * handle.eject();
+ */
+
+import { logger } from '@/lib/logger';
+import { HttpError, RateLimitError } from './errors';
+import { parseRetryAfter } from './retry';
+import type { ApiResponse, RequestConfig } from './types';
+
+const log = logger.child('api');
+
+/**
+ * 성공 핸들러 타입
+ * 값을 그대로 또는 변환하여 반환 (Promise 가능)
+ */
+export type InterceptorFulfilled<V> = (value: V) => V | Promise<V>;
+
+/**
+ * 실패(에러) 핸들러 타입
+ * 에러를 다시 throw하면 체인이 실패 상태로 이어지고,
+ * 값을 반환하면 체인이 성공 상태로 복구됨
+ */
+export type InterceptorRejected<V> = (error: unknown) => V | Promise<V>;
+
+/**
+ * 인터셉터 등록 핸들
+ */
+export interface InterceptorHandle {
+    /** 인터셉터 고유 ID */
+    readonly id: number;
+    /** 인터셉터 제거 */
+    eject: () => void;
+}
+
+/**
+ * 등록된 인터셉터 항목
+ */
+interface InterceptorEntry<V> {
+    id: number;
+    fulfilled?: InterceptorFulfilled<V>;
+    rejected?: InterceptorRejected<V>;
+}
+
+/**
+ * 인터셉터 매니저
+ * 하나의 파이프라인 단계(요청 또는 응답)에 대한 인터셉터 목록을 관리
+ *
+ * @template V - 체인을 통과하는 값의 타입
+ */
+export class InterceptorManager<V> {
+    /** 등록된 인터셉터 목록 (등록 순서 유지) */
+    private entries: InterceptorEntry<V>[] = [];
+
+    /** 다음에 발급할 인터셉터 ID */
+    private nextId = 0;
+
+    /**
+     * 인터셉터 등록
+     *
+     * @param fulfilled - 이전 단계가 성공했을 때 실행할 핸들러
+     * @param rejected - 이전 단계가 실패했을 때 실행할 핸들러
+     * @returns 제거용 핸들
+     */
+    use(fulfilled?: InterceptorFulfilled<V>, rejected?: InterceptorRejected<V>): InterceptorHandle {
+        const id = this.nextId++;
+        this.entries.push({ id, fulfilled, rejected });
+
+        return {
+            id,
+            eject: () => this.eject(id),
+        };
+    }
+
+    /**
+     * 인터셉터 제거
+     * @param id - use()가 반환한 핸들의 ID
+     */
+    eject(id: number): void {
+        this.entries = this.entries.filter((entry) => entry.id !== id);
+    }
+
+    /**
+     * 모든 인터셉터 제거 (기본 인터셉터 포함)
+     */
+    clear(): void {
+        this.entries = [];
+    }
+
+    /**
+     * 등록된 인터셉터 수
+     */
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * 인터셉터 체인 실행
+     * 각 인터셉터를 등록 순서대로 Promise 체인에 연결
+     *
+     * @param initial - 체인의 시작 값 (실패한 Promise도 가능)
+     * @returns 모든 인터셉터를 통과한 최종 값
+     */
+    run(initial: V | Promise<V>): Promise<V> {
+        // 실행 도중 eject되어도 영향을 받지 않도록 스냅샷 사용
+        const snapshot = [...this.entries];
+
+        return snapshot.reduce<Promise<V>>(
+            (promise, entry) => promise.then(entry.fulfilled, entry.rejected),
+            Promise.resolve(initial)
+        );
+    }
+}
+
+/**
+ * ApiClient가 노출하는 인터셉터 묶음
+ */
+export interface ApiInterceptors {
+    /** 요청 전처리 인터셉터 */
+    request: InterceptorManager<RequestConfig>;
+    /** 응답 후처리 인터셉터 (onRejected는 에러 인터셉터로 동작) */
+    response: InterceptorManager<ApiResponse<unknown>>;
+}
+
+// ============================================================
+// 기본 인터셉터
+// ============================================================
+
+/**
+ * 요청 로깅 인터셉터
+ * info 레벨에서 요청 메서드와 URL을 출력 (local/development는 출력, production은 config.logLevel에 따라 생략)
+ */
+export const requestLoggingInterceptor: InterceptorFulfilled<RequestConfig> = (config) => {
+    log.info(`${config.method} ${config.url}`);
+
+    return config;
+};
+
+/**
+ * 에러 응답 인터셉터
+ * 2xx가 아닌 응답을 HttpError로 변환하여 throw
+ * 304 Not Modified는 에러가 아님 (HTTP 캐시가 처리하지 않은 경우 data는 null)
+ */
+export const apiErrorInterceptor: InterceptorFulfilled<ApiResponse<unknown>> = (response) => {
+    if ((response.status < 200 || response.status >= 300) && response.status !== 304) {
+        throw createApiError(response);
+    }
+
+    return response;
+};
+
+/**
+ * 실패 응답으로 HttpError 생성
+ * 서버 에러 본문의 메시지, 에러 코드, 필드 에러, 요청 ID를 그대로 보존
+ * 429 응답은 Retry-After 대기 시간을 포함한 RateLimitError로 생성
+ *
+ * @param response - 2xx 이외의 응답
+ */
+export function createApiError(response: ApiResponse<unknown>): HttpError {
+    const params = {
+        status: response.status,
+        body: response.data,
+        headers: response.headers,
+        method: response.config.method,
+        url: response.config.url,
+        requestHeaders: response.config.headers,
+    };
+
+    if (response.status === 429) {
+        return new RateLimitError({ ...params, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) });
+    }
+
+    return new HttpError(params);
+}
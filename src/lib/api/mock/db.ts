@@ -0,0 +1,210 @@
+/**
+ * @file 목 데이터 저장소
+ * @description 목 백엔드가 사용하는 시드 데이터와 인메모리 저장소
+ *
+ * 시드 데이터는 매번 동일하게 생성되므로 새로고침 후에도 같은 목록을 확인할 수 있습니다.
+ * 로그인 계정: 시드 사용자의 이메일 + 비밀번호 `password`
+ *
+ * 쿠키 세션 모드(config.api.auth === 'cookie')에서는 로그인 세션을 세션 쿠키로 간주하고,
+ * 변경 요청에 CSRF 토큰(ENDPOINTS.AUTH.CSRF에서 발급)을 요구합니다.
+ */
+
+import { config } from '@/config';
+import { DEFAULT_COOKIE_SESSION_OPTIONS } from '../auth';
+import type { PaginatedResponse, PaginationParams, User } from '../types';
+
+/**
+ * 시드 사용자 수
+ */
+const SEED_USER_COUNT = 57;
+
+/**
+ * 목 계정 공통 비밀번호
+ */
+export const MOCK_PASSWORD = 'password';
+
+/**
+ * 액세스 토큰 유효 시간 (밀리초)
+ * 토큰 자동 갱신 흐름을 확인할 수 있도록 짧게 설정
+ */
+export const MOCK_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * 시드 이름 목록
+ */
+const FAMILY_NAMES = ['김', '이', '박', '최', '정', '강', '조', '윤', '장', '임'];
+const GIVEN_NAMES = ['민준', '서연', '도윤', '지우', '하준', '서윤', '시우', '하은', '지호', '수아', '예준', '지민'];
+
+/**
+ * 시드 사용자 생성
+ * 인덱스만으로 값을 결정하여 항상 같은 결과를 생성
+ */
+function createSeedUsers(): User[] {
+    const baseTime = Date.UTC(2026, 0, 1);
+
+    return Array.from({ length: SEED_USER_COUNT }, (_, index) => {
+        const createdAt = new Date(baseTime + index * 36 * 60 * 60 * 1000).toISOString();
+
+        return {
+            id: `user-${index + 1}`,
+            email: `user${index + 1}@example.com`,
+            name: `${FAMILY_NAMES[index % FAMILY_NAMES.length]}${GIVEN_NAMES[index % GIVEN_NAMES.length]}`,
+            createdAt,
+            updatedAt: createdAt,
+        };
+    });
+}
+
+/**
+ * 발급된 액세스 토큰 정보
+ */
+interface MockToken {
+    userId: string;
+    expiresAt: number;
+}
+
+/**
+ * 목 데이터베이스
+ */
+class MockDatabase {
+    /** 사용자 목록 */
+    users: User[] = createSeedUsers();
+
+    /** 발급된 액세스 토큰 */
+    private tokens = new Map<string, MockToken>();
+
+    /**
+     * 리프레시 세션의 사용자 ID
+     * 실제 서버의 httpOnly 리프레시 쿠키 역할 (쿠키 세션 모드에서는 세션 쿠키 역할)
+     */
+    sessionUserId: string | null = null;
+
+    /** 쿠키 세션 모드에서 발급한 CSRF 토큰 */
+    private csrfToken: string | null = null;
+
+    /** 토큰 발급 순번 */
+    private tokenSequence = 0;
+
+    /** 새 레코드 ID 순번 (같은 밀리초에 생성해도 겹치지 않도록, reset 후에도 유지) */
+    private idSequence = 0;
+
+    /**
+     * 시드 상태로 초기화
+     */
+    reset(): void {
+        this.users = createSeedUsers();
+        this.tokens.clear();
+        this.sessionUserId = null;
+        this.csrfToken = null;
+    }
+
+    /**
+     * 새 레코드 ID 생성 (시드 데이터의 'user-1' 형식과 겹치지 않음)
+     *
+     * @param prefix - ID 접두사 (예: 'user')
+     */
+    createId(prefix: string): string {
+        return `${prefix}-${Date.now().toString(36)}-${++this.idSequence}`;
+    }
+
+    /**
+     * 사용자 ID로 조회
+     */
+    findUser(id: string): User | undefined {
+        return this.users.find((user) => user.id === id);
+    }
+
+    /**
+     * 이메일로 조회
+     */
+    findUserByEmail(email: string): User | undefined {
+        return this.users.find((user) => user.email === email);
+    }
+
+    /**
+     * 사용자 목록 페이지 조회
+     */
+    listUsers(params: PaginationParams): PaginatedResponse<User> {
+        const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'asc' } = params;
+        const key = sortBy as keyof User;
+
+        const sorted = [...this.users].sort((a, b) => {
+            const order = String(a[key] ?? '').localeCompare(String(b[key] ?? ''));
+            return sortOrder === 'desc' ? -order : order;
+        });
+
+        return {
+            items: sorted.slice((page - 1) * limit, page * limit),
+            total: sorted.length,
+            page,
+            limit,
+            totalPages: Math.max(1, Math.ceil(sorted.length / limit)),
+        };
+    }
+
+    /**
+     * 액세스 토큰 발급 (리프레시 세션도 함께 시작)
+     */
+    issueToken(userId: string): string {
+        const token = `mock-token-${userId}-${++this.tokenSequence}`;
+        this.tokens.set(token, { userId, expiresAt: Date.now() + MOCK_TOKEN_TTL_MS });
+        this.sessionUserId = userId;
+        return token;
+    }
+
+    /**
+     * Authorization 헤더 또는 세션으로 사용자 인증
+     * 인프로세스 목 백엔드는 브라우저 쿠키 저장소를 사용할 수 없으므로
+     * 쿠키 세션 모드에서는 로그인 세션(sessionUserId)을 세션 쿠키로 간주
+     *
+     * @returns 유효한 토큰 또는 세션의 사용자 (없거나 만료되면 undefined)
+     */
+    authenticate(headers: Headers): User | undefined {
+        const token = headers.get('Authorization')?.replace(/^Bearer /, '');
+        const entry = token ? this.tokens.get(token) : undefined;
+
+        if (entry && entry.expiresAt >= Date.now()) {
+            return this.findUser(entry.userId);
+        }
+
+        if (config.api.auth === 'cookie' && this.sessionUserId) {
+            return this.findUser(this.sessionUserId);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * CSRF 토큰 발급 (이전 토큰은 무효)
+     */
+    issueCsrfToken(): string {
+        this.csrfToken = `mock-csrf-${Date.now().toString(36)}-${++this.tokenSequence}`;
+        return this.csrfToken;
+    }
+
+    /**
+     * 변경 요청의 CSRF 토큰 확인
+     * 쿠키 세션 모드가 아니면 항상 통과
+     */
+    verifyCsrf(method: string, headers: Headers): boolean {
+        if (config.api.auth !== 'cookie' || !DEFAULT_COOKIE_SESSION_OPTIONS.methods.includes(method)) {
+            return true;
+        }
+
+        return this.csrfToken !== null && headers.get(DEFAULT_COOKIE_SESSION_OPTIONS.headerName) === this.csrfToken;
+    }
+
+    /**
+     * 로그아웃 (모든 토큰, 세션, CSRF 토큰 폐기)
+     */
+    revokeSession(): void {
+        this.tokens.clear();
+        this.sessionUserId = null;
+        this.csrfToken = null;
+    }
+}
+
+/**
+ * 목 데이터베이스 인스턴스
+ */
+export const mockDb = new MockDatabase();
@@ -0,0 +1,192 @@
+/**
+ * @file 기본 목 핸들러
+ * @description ENDPOINTS.AUTH, ENDPOINTS.USERS에 대한 목 핸들러
+ */
+
+import { ENDPOINTS } from '../endpoints';
+import type { CreateUserRequest, LoginRequest, PaginationParams, RegisterRequest, User } from '../types';
+import { MOCK_PASSWORD, mockDb } from './db';
+import { mockError, type MockBackend, type MockHandler, type MockRequest } from './mock-backend';
+
+/**
+ * 인증되지 않은 요청에 대한 401 응답
+ */
+function unauthorized(): Response {
+    return mockError(401, '유효한 액세스 토큰이 필요합니다.', { code: 'UNAUTHORIZED' });
+}
+
+/**
+ * 쿼리 문자열에서 페이지네이션 파라미터 추출
+ */
+function parsePagination(query: URLSearchParams): PaginationParams {
+    const sortOrder = query.get('sortOrder');
+
+    return {
+        page: Number(query.get('page')) || undefined,
+        limit: Number(query.get('limit')) || undefined,
+        sortBy: query.get('sortBy') ?? undefined,
+        sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : undefined,
+    };
+}
+
+/**
+ * 사용자 생성/수정 본문 검증
+ * @returns 필드 에러 (없으면 null)
+ */
+function validateUserInput(
+    input: Partial<CreateUserRequest>,
+    currentUserId?: string
+): Record<string, string[]> | null {
+    const errors: Record<string, string[]> = {};
+
+    if (input.email !== undefined) {
+        const owner = mockDb.findUserByEmail(input.email);
+
+        if (!/^[^@\s]+@[^@\s]+$/.test(input.email)) {
+            errors.email = ['올바른 이메일 형식이 아닙니다.'];
+        } else if (owner && owner.id !== currentUserId) {
+            errors.email = ['이미 사용 중인 이메일입니다.'];
+        }
+    }
+
+    if (input.name !== undefined && !input.name.trim()) {
+        errors.name = ['이름을 입력해주세요.'];
+    }
+
+    return Object.keys(errors).length > 0 ? errors : null;
+}
+
+/**
+ * 인증이 필요한 핸들러 래퍼
+ * 쿠키 세션 모드의 변경 요청은 CSRF 토큰도 확인 (불일치 시 419)
+ */
+function withAuth<TResult, TParams>(
+    handler: (request: MockRequest<TParams>, currentUser: User) => TResult | Response
+): MockHandler<TResult, TParams> {
+    return (request) => {
+        const currentUser = mockDb.authenticate(request.headers);
+        if (!currentUser) {
+            return unauthorized();
+        }
+
+        if (!mockDb.verifyCsrf(request.method, request.headers)) {
+            return mockError(419, 'CSRF 토큰이 유효하지 않습니다.', { code: 'CSRF_TOKEN_MISMATCH' });
+        }
+
+        return handler(request, currentUser);
+    };
+}
+
+/**
+ * 기본 목 핸들러 등록
+ *
+ * @param backend - 핸들러를 등록할 목 백엔드
+ */
+export function registerDefaultHandlers(backend: MockBackend): void {
+    // ===== 인증 =====
+    backend.registerEndpoint(ENDPOINTS.AUTH.LOGIN, ({ body }) => {
+        const { email, password } = body as LoginRequest;
+        const user = mockDb.findUserByEmail(email);
+
+        if (!user || password !== MOCK_PASSWORD) {
+            return mockError(401, '이메일 또는 비밀번호가 올바르지 않습니다.', { code: 'INVALID_CREDENTIALS' });
+        }
+
+        return { accessToken: mockDb.issueToken(user.id) };
+    });
+
+    backend.registerEndpoint(ENDPOINTS.AUTH.LOGOUT, () => {
+        mockDb.revokeSession();
+        return null;
+    });
+
+    backend.registerEndpoint(ENDPOINTS.AUTH.REGISTER, ({ body }) => {
+        const { email, name } = body as RegisterRequest;
+        const errors = validateUserInput({ email, name });
+
+        if (errors) {
+            return mockError(422, '입력값을 확인해주세요.', { code: 'VALIDATION_FAILED', errors });
+        }
+
+        const now = new Date().toISOString();
+        const user: User = { id: mockDb.createId('user'), email, name, createdAt: now, updatedAt: now };
+        mockDb.users.push(user);
+        return user;
+    });
+
+    backend.registerEndpoint(ENDPOINTS.AUTH.REFRESH, () => {
+        if (!mockDb.sessionUserId) {
+            return mockError(401, '세션이 만료되었습니다.', { code: 'SESSION_EXPIRED' });
+        }
+
+        return { accessToken: mockDb.issueToken(mockDb.sessionUserId) };
+    });
+
+    backend.registerEndpoint(ENDPOINTS.AUTH.CSRF, () => ({ csrfToken: mockDb.issueCsrfToken() }));
+
+    backend.registerEndpoint(
+        ENDPOINTS.AUTH.ME,
+        withAuth((_, currentUser) => currentUser)
+    );
+
+    // ===== 사용자 =====
+    backend.registerEndpoint(
+        ENDPOINTS.USERS.LIST,
+        withAuth(({ query }) => mockDb.listUsers(parsePagination(query)))
+    );
+
+    backend.registerEndpoint(
+        ENDPOINTS.USERS.DETAIL,
+        withAuth(({ params }) => {
+            return mockDb.findUser(params.id) ?? mockError(404, '사용자를 찾을 수 없습니다.', { code: 'USER_NOT_FOUND' });
+        })
+    );
+
+    backend.registerEndpoint(
+        ENDPOINTS.USERS.CREATE,
+        withAuth(({ body }) => {
+            const input = body as CreateUserRequest;
+            const errors = validateUserInput(input);
+
+            if (errors) {
+                return mockError(422, '입력값을 확인해주세요.', { code: 'VALIDATION_FAILED', errors });
+            }
+
+            const now = new Date().toISOString();
+            const user: User = { id: mockDb.createId('user'), ...input, createdAt: now, updatedAt: now };
+            mockDb.users.push(user);
+            return user;
+        })
+    );
+
+    backend.registerEndpoint(
+        ENDPOINTS.USERS.UPDATE,
+        withAuth(({ params, body }) => {
+            const user = mockDb.findUser(params.id);
+            if (!user) {
+                return mockError(404, '사용자를 찾을 수 없습니다.', { code: 'USER_NOT_FOUND' });
+            }
+
+            const input = body as Partial<CreateUserRequest>;
+            const errors = validateUserInput(input, user.id);
+            if (errors) {
+                return mockError(422, '입력값을 확인해주세요.', { code: 'VALIDATION_FAILED', errors });
+            }
+
+            Object.assign(user, input, { updatedAt: new Date().toISOString() });
+            return user;
+        })
+    );
+
+    backend.registerEndpoint(
+        ENDPOINTS.USERS.DELETE,
+        withAuth(({ params }) => {
+            if (!mockDb.findUser(params.id)) {
+                return mockError(404, '사용자를 찾을 수 없습니다.', { code: 'USER_NOT_FOUND' });
+            }
+
+            mockDb.users = mockDb.users.filter((user) => user.id !== params.id);
+            return null;
+        })
+    );
+}
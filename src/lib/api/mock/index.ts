@@ -0,0 +1,23 @@
+/**
+ * @file 목 백엔드 배럴 파일
+ * @description 기본 핸들러가 등록된 목 백엔드 인스턴스 및 관련 헬퍼 export
+ *
+ * config.features.useMockData가 true이면 apiClient가 이 목 백엔드를 통해 요청을 처리합니다.
+ */
+
+import { API_BASE_URL } from '../endpoints';
+import { registerDefaultHandlers } from './handlers';
+import { MockBackend } from './mock-backend';
+
+/**
+ * 전역 목 백엔드 인스턴스
+ * ENDPOINTS.AUTH, ENDPOINTS.USERS 핸들러가 기본 등록되어 있음
+ */
+export const mockBackend = new MockBackend(API_BASE_URL);
+
+registerDefaultHandlers(mockBackend);
+
+export { MockBackend, mockJson, mockError } from './mock-backend';
+export type { MockRequest, MockHandler, MockBackendOptions } from './mock-backend';
+export { mockDb, MOCK_PASSWORD } from './db';
+export { registerDefaultHandlers } from './handlers';
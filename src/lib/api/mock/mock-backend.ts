@@ -0,0 +1,262 @@
+/**
+ * @file 목 백엔드
+ * @description ApiClient의 fetch를 대체하는 인프로세스 목 서버
+ *
+ * 특징:
+ * - `:param` 경로 매칭 및 엔드포인트 정의 기반 타입 안전한 핸들러 등록
+ * - 지연 시간/에러 시뮬레이션 (AbortSignal 준수)
+ * - 실제 Response 객체를 반환하므로 인터셉터, 재시도, 에러 처리가 그대로 동작
+ *
+ * @example
+ * // 팀별 엔드포인트 핸들러 등록
+ * mockBackend.registerEndpoint(ENDPOINTS.ORDERS.DETAIL, ({ params }) => findOrder(params.id));
+ *
+ * // 임의 경로 핸들러 등록
+ * mockBackend.register('GET', '/health', () => ({ status: 'ok' }));
+ *
+ * // 지연/에러 시뮬레이션
+ * mockBackend.configure({ latencyMs: [500, 1500], errorRate: 0.1 });
+ */
+
+import type { EndpointDefinition, EndpointParams, EndpointResponse, HttpMethod } from '../define-endpoint';
+import { logger } from '@/lib/logger';
+
+const log = logger.child('mock');
+
+/**
+ * 목 요청 정보
+ */
+export interface MockRequest<TParams = Record<string, string>> {
+    /** HTTP 메서드 */
+    method: string;
+    /** base URL을 제외한 경로 (예: '/users/1') */
+    path: string;
+    /** 경로 파라미터 */
+    params: TParams;
+    /** 쿼리 파라미터 */
+    query: URLSearchParams;
+    /** 요청 헤더 */
+    headers: Headers;
+    /** JSON 파싱된 요청 본문 (본문이 없으면 undefined) */
+    body: unknown;
+}
+
+/**
+ * 목 핸들러 타입
+ * 데이터를 반환하면 200 JSON 응답으로, Response를 반환하면 그대로 응답
+ */
+export type MockHandler<TResult = unknown, TParams = Record<string, string>> = (
+    request: MockRequest<TParams>
+) => TResult | Response | Promise<TResult | Response>;
+
+/**
+ * 목 백엔드 동작 설정
+ */
+export interface MockBackendOptions {
+    /** 응답 지연 범위 [최소, 최대] (밀리초) */
+    latencyMs: [number, number];
+    /** 무작위 서버 에러(503) 발생 확률 (0 ~ 1) */
+    errorRate: number;
+}
+
+/**
+ * 등록된 라우트
+ */
+interface MockRoute {
+    method: string;
+    pattern: RegExp;
+    paramNames: string[];
+    handler: MockHandler;
+}
+
+/**
+ * 기본 동작 설정
+ */
+const DEFAULT_OPTIONS: MockBackendOptions = {
+    latencyMs: [200, 600],
+    errorRate: 0,
+};
+
+/**
+ * JSON 응답 생성
+ *
+ * @example
+ * return mockJson({ message: '이미 사용 중인 이메일입니다.' }, { status: 409 });
+ */
+export function mockJson(data: unknown, init: ResponseInit = {}): Response {
+    const headers = new Headers(init.headers);
+    headers.set('Content-Type', 'application/json');
+
+    return new Response(JSON.stringify(data), { ...init, headers });
+}
+
+/**
+ * 에러 응답 생성 (ServerErrorBody 형식)
+ *
+ * @example
+ * return mockError(404, '사용자를 찾을 수 없습니다.', { code: 'USER_NOT_FOUND' });
+ */
+export function mockError(
+    status: number,
+    message: string,
+    extras: { code?: string; errors?: Record<string, string[]> } = {}
+): Response {
+    return mockJson({ message, ...extras }, { status });
+}
+
+/**
+ * 경로 패턴을 정규식으로 변환
+ */
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+    const paramNames: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, name: string) => {
+        paramNames.push(name);
+        return '([^/]+)';
+    });
+
+    return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+/**
+ * 지연 시뮬레이션 (AbortSignal로 취소 가능)
+ */
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const abort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('요청이 취소되었습니다.', 'AbortError'));
+        };
+
+        if (signal?.aborted) {
+            abort();
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', abort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', abort, { once: true });
+    });
+}
+
+/**
+ * 목 백엔드
+ */
+export class MockBackend {
+    /** 요청 URL에서 제거할 base URL */
+    private baseUrl: string;
+
+    /** 등록된 라우트 (먼저 등록된 라우트가 우선) */
+    private routes: MockRoute[] = [];
+
+    /** 동작 설정 */
+    private options: MockBackendOptions;
+
+    constructor(baseUrl: string, options: Partial<MockBackendOptions> = {}) {
+        this.baseUrl = baseUrl;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * 동작 설정 변경
+     */
+    configure(options: Partial<MockBackendOptions>): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * 경로 핸들러 등록
+     *
+     * @param method - HTTP 메서드
+     * @param path - `:param`을 포함할 수 있는 경로
+     * @param handler - 요청 처리 함수
+     * @returns 등록 해제 함수
+     */
+    register(method: HttpMethod, path: string, handler: MockHandler): () => void {
+        const route: MockRoute = { method, handler, ...compilePath(path) };
+        this.routes.push(route);
+
+        return () => {
+            this.routes = this.routes.filter((r) => r !== route);
+        };
+    }
+
+    /**
+     * 엔드포인트 정의로 핸들러 등록
+     * 핸들러의 경로 파라미터와 반환 타입이 엔드포인트 정의에서 추론됨
+     *
+     * @returns 등록 해제 함수
+     */
+    registerEndpoint<E extends EndpointDefinition>(
+        endpoint: E,
+        handler: MockHandler<EndpointResponse<E>, Record<keyof EndpointParams<E>, string>>
+    ): () => void {
+        return this.register(endpoint.method, endpoint.path, handler as MockHandler);
+    }
+
+    /**
+     * 등록된 모든 핸들러 제거
+     */
+    reset(): void {
+        this.routes = [];
+    }
+
+    /**
+     * fetch 대체 함수
+     * ApiClient의 fetch 옵션에 그대로 전달 가능
+     */
+    fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+        const url = new URL(input instanceof Request ? input.url : String(input));
+        const method = (init.method ?? 'GET').toUpperCase();
+        const path = url.pathname.replace(new URL(this.baseUrl).pathname.replace(/\/$/, ''), '') || '/';
+
+        const [minLatency, maxLatency] = this.options.latencyMs;
+        await delay(minLatency + Math.random() * (maxLatency - minLatency), init.signal);
+
+        if (Math.random() < this.options.errorRate) {
+            return mockError(503, '목 서버 에러 시뮬레이션', { code: 'MOCK_SIMULATED_ERROR' });
+        }
+
+        for (const route of this.routes) {
+            const match = route.method === method ? route.pattern.exec(path) : null;
+            if (!match) continue;
+
+            const params = Object.fromEntries(
+                route.paramNames.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+            );
+
+            const headers = new Headers(init.headers);
+            let body: unknown = init.body ?? undefined;
+
+            // JSON 본문만 파싱 (text/plain 등은 문자열 그대로 전달)
+            if (typeof init.body === 'string' && /json/i.test(headers.get('Content-Type') ?? '')) {
+                try {
+                    body = JSON.parse(init.body);
+                } catch {
+                    return mockError(400, '요청 본문이 올바른 JSON이 아닙니다.', { code: 'MOCK_INVALID_JSON' });
+                }
+            }
+
+            const result = await route.handler({
+                method,
+                path,
+                params,
+                query: url.searchParams,
+                headers,
+                body,
+            });
+
+            if (result instanceof Response) return result;
+            return result === undefined || result === null
+                ? new Response(null, { status: 204 })
+                : mockJson(result);
+        }
+
+        log.warn('핸들러가 없습니다', { method, path });
+        return mockError(404, `목 핸들러가 등록되지 않았습니다. (${method} ${path})`, {
+            code: 'MOCK_HANDLER_NOT_FOUND',
+        });
+    };
+}
@@ -0,0 +1,558 @@
+/**
+ * @file 오프라인 변경 요청 큐
+ * @description 오프라인이거나 네트워크 장애로 실패한 변경 요청을 IndexedDB에 보관했다가 연결이 복구되면 순서대로 재전송
+ *
+ * 특징:
+ * - 선택적 사용: offlineQueue.mutate()로 보낸 요청만 큐에 보관 (apiClient.post 등은 그대로 실패)
+ * - 큐에 대기 중인 요청이 있으면 새 요청도 뒤에 쌓아 전송 순서 보장
+ * - 브라우저 online 이벤트에서 자동 재전송, 연결 문제/5xx로 실패하면 지수 백오프 후 다시 재전송
+ * - 409 충돌은 onConflict 콜백으로 처리 (폐기 / 보류 / 본문 수정 후 재전송)
+ * - 401(토큰 갱신 실패)은 항목을 유지하고 다시 로그인할 때까지 재전송 중단 (isAuthRequired)
+ * - 그 외 4xx 응답은 재전송해도 성공할 수 없으므로 폐기 후 onDropped 호출
+ *
+ * 본문은 IndexedDB에 저장되므로 구조화 복제가 가능한 값(일반 객체, Blob 등)이어야 합니다. (FormData 불가)
+ *
+ * @example
+ * const result = await offlineQueue.mutate('PUT', `/todos/${id}`, { done: true });
+ * if (result.status === 'queued') toast.info('오프라인 상태입니다. 연결되면 저장됩니다.');
+ *
+ * // 충돌 처리: 서버 버전을 기준으로 다시 적용
+ * const queue = new OfflineQueue({
+ *   onConflict: async (mutation, error) => {
+ *     const latest = error.body as Todo;
+ *     return { body: { ...(mutation.body as Todo), version: latest.version } };
+ *   },
+ * });
+ */
+
+import { getDB } from '@/lib/indexed-db';
+import { logger } from '@/lib/logger';
+import { apiClient, type ApiClient } from './client';
+import { isHttpError, isNetworkError, isTimeoutError, type HttpError } from './errors';
+import { createIdempotencyKey, getMutationLockKey } from './idempotency';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, type RetryPolicy } from './retry';
+import type { RequestOptions } from './types';
+
+const log = logger.child('offlineQueue');
+
+/**
+ * 큐에 보관할 수 있는 HTTP 메서드
+ */
+export type QueueableMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * 큐에 보관된 변경 요청
+ */
+export interface QueuedMutation {
+    /** 큐 항목 ID (생성 순서대로 정렬됨) */
+    id: string;
+    /** HTTP 메서드 */
+    method: QueueableMethod;
+    /** API 엔드포인트 */
+    endpoint: string;
+    /** 요청 본문 */
+    body?: unknown;
+    /** 요청별 헤더 (인증 헤더는 재전송 시점에 다시 적용) */
+    headers?: Record<string, string>;
+    /** 멱등성 키 (처음 전송할 때와 재전송할 때 같은 키를 사용하여 서버의 중복 처리 방지) */
+    idempotencyKey?: string;
+    /** 큐에 추가된 시각 (epoch 밀리초) */
+    createdAt: number;
+    /** 재전송 시도 횟수 */
+    attempts: number;
+    /** 마지막 재전송 실패 사유 */
+    lastError?: string;
+}
+
+/**
+ * 409 충돌 처리 결과
+ * - discard: 큐에서 제거
+ * - keep: 큐에 남기고 재전송 중단 (사용자 확인 후 처리하는 경우)
+ * - { body }: 본문을 바꿔 즉시 다시 전송
+ */
+export type ConflictResolution = 'discard' | 'keep' | { body: unknown };
+
+/**
+ * 변경 요청 결과
+ */
+export type MutationOutcome<T> =
+    | { status: 'sent'; data: T }
+    | { status: 'queued'; mutation: QueuedMutation };
+
+/**
+ * 큐 상태
+ */
+export interface OfflineQueueState {
+    /** 대기 중인 요청 (전송 순서) */
+    entries: readonly QueuedMutation[];
+    /** 재전송 진행 중 여부 */
+    isReplaying: boolean;
+    /** 브라우저 온라인 여부 */
+    isOnline: boolean;
+    /** 인증 만료(401)로 재전송이 멈춘 상태 (다시 로그인하면 자동 재개) */
+    isAuthRequired: boolean;
+}
+
+/**
+ * OfflineQueue 생성 옵션
+ */
+export interface OfflineQueueOptions {
+    /** 요청을 보낼 클라이언트 (기본: apiClient) */
+    client?: ApiClient;
+    /** IndexedDB 데이터베이스 이름 (기본: 'api-offline-queue') */
+    dbName?: string;
+    /** 재전송 최대 시도 횟수 (초과하면 폐기, 기본: 5) */
+    maxAttempts?: number;
+    /** 409 충돌 처리 (기본: 폐기) */
+    onConflict?: (mutation: QueuedMutation, error: HttpError) => ConflictResolution | Promise<ConflictResolution>;
+    /** 재전송 성공 */
+    onReplayed?: (mutation: QueuedMutation, data: unknown) => void;
+    /** 재전송할 수 없어 폐기됨 (4xx 응답 또는 시도 횟수 초과) */
+    onDropped?: (mutation: QueuedMutation, error: unknown) => void;
+}
+
+/**
+ * 객체 저장소 이름
+ */
+const STORE_NAME = 'mutations';
+
+/**
+ * 재전송 실패 후 다시 시도할 때의 백오프 (2초부터 최대 1분)
+ */
+const REPLAY_BACKOFF: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 2000, maxDelayMs: 60000 };
+
+/**
+ * 브라우저 환경 여부
+ */
+const isBrowser = () => typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+
+/**
+ * 요청 실패가 연결 문제인지 판단 (연결 복구 후 재전송 대상)
+ */
+function isConnectivityError(error: unknown): boolean {
+    return isNetworkError(error) || isTimeoutError(error);
+}
+
+/**
+ * 오프라인 변경 요청 큐
+ */
+export class OfflineQueue {
+    private options: Required<Pick<OfflineQueueOptions, 'dbName' | 'maxAttempts'>> & OfflineQueueOptions;
+
+    /** 현재 상태 (변경 시 새 객체로 교체) */
+    private state: OfflineQueueState = { entries: [], isReplaying: false, isOnline: true, isAuthRequired: false };
+
+    /** 상태 구독자 */
+    private listeners = new Set<() => void>();
+
+    /** IndexedDB에서 기존 항목을 불러오는 Promise */
+    private loadPromise: Promise<void> | null = null;
+
+    /** 진행 중인 재전송 */
+    private replayPromise: Promise<void> | null = null;
+
+    /** 같은 밀리초에 추가된 항목의 순서 */
+    private sequence = 0;
+
+    /** 실패한 재전송을 다시 시도하는 타이머 */
+    private retryTimer?: ReturnType<typeof setTimeout>;
+
+    /** 인증 토큰 변경 구독 해제 함수 */
+    private unsubscribeAuth?: () => void;
+
+    /** 전송 중인 변경 요청의 멱등성 키 (같은 요청에 같은 키를 사용하여 ApiClient가 한 번만 보내도록 함) */
+    private sendingKeys = new Map<string, string>();
+
+    constructor(options: OfflineQueueOptions = {}) {
+        this.options = { dbName: 'api-offline-queue', maxAttempts: 5, ...options };
+    }
+
+    /**
+     * 현재 상태 조회
+     */
+    getState(): OfflineQueueState {
+        return this.state;
+    }
+
+    /**
+     * 상태 변경 구독
+     * @returns 구독 해제 함수
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * 큐 시작: 저장된 항목을 불러오고 온라인 상태 변화를 감지 (여러 번 호출해도 한 번만 실행)
+     * 온라인이면 즉시 재전송
+     */
+    start(): Promise<void> {
+        if (!this.loadPromise) {
+            if (!isBrowser()) {
+                return Promise.resolve();
+            }
+
+            window.addEventListener('online', this.handleConnectivity);
+            window.addEventListener('offline', this.handleConnectivity);
+            this.setState({ isOnline: navigator.onLine });
+
+            // 다시 로그인하면 인증 만료로 멈춘 재전송 재개
+            this.unsubscribeAuth = (this.options.client ?? apiClient).on('authTokenChanged', ({ token }) => {
+                if (token && this.state.isAuthRequired && this.state.isOnline) void this.replay();
+            });
+
+            this.loadPromise = this.getStore()
+                .then((db) => db.getAll(STORE_NAME) as Promise<QueuedMutation[]>)
+                .then((stored) => {
+                    // 불러오는 동안 추가된 항목은 뒤에 유지
+                    const ids = new Set(stored.map((entry) => entry.id));
+                    this.setState({
+                        entries: [...stored, ...this.state.entries.filter((entry) => !ids.has(entry.id))],
+                    });
+                })
+                .catch((error: unknown) => {
+                    log.error('저장된 요청을 불러오지 못했습니다', { error });
+                });
+
+            this.loadPromise.then(() => {
+                if (this.state.isOnline) void this.replay();
+            });
+        }
+
+        return this.loadPromise;
+    }
+
+    /**
+     * 큐 중지: 온라인 상태 감지와 예약된 재전송을 중단 (저장된 항목은 유지, start()로 다시 시작)
+     */
+    stop(): void {
+        if (!this.loadPromise) {
+            return;
+        }
+
+        window.removeEventListener('online', this.handleConnectivity);
+        window.removeEventListener('offline', this.handleConnectivity);
+        this.unsubscribeAuth?.();
+        this.unsubscribeAuth = undefined;
+        clearTimeout(this.retryTimer);
+        this.retryTimer = undefined;
+        this.loadPromise = null;
+    }
+
+    /**
+     * 변경 요청 전송
+     * 오프라인이거나 연결 문제로 실패하면 큐에 보관하고, 대기 중인 요청이 있으면 순서를 지키기 위해 뒤에 추가
+     * 서버가 응답한 에러(4xx/5xx)는 그대로 throw
+     *
+     * @param method - HTTP 메서드
+     * @param endpoint - API 엔드포인트
+     * @param body - 요청 본문 (DELETE는 무시)
+     * @param options - 요청 옵션 (큐에는 headers만 보관)
+     */
+    async mutate<T>(
+        method: QueueableMethod,
+        endpoint: string,
+        body?: unknown,
+        options: RequestOptions<T> = {}
+    ): Promise<MutationOutcome<T>> {
+        await this.start();
+
+        // 전송 도중 연결이 끊겨 큐에 보관되어도 서버가 이미 처리한 요청을 다시 처리하지 않도록 같은 키 사용
+        const lockKey = options.idempotencyKey ? null : getMutationLockKey(method, endpoint, options.params, body);
+        const sendingKey = lockKey ? this.sendingKeys.get(lockKey) : undefined;
+        const idempotencyKey = options.idempotencyKey || sendingKey || createIdempotencyKey();
+
+        if (!this.state.isOnline || this.state.entries.length > 0) {
+            const mutation = await this.enqueue(method, endpoint, body, options.headers, idempotencyKey);
+            if (this.state.isOnline) void this.replay();
+            return { status: 'queued', mutation };
+        }
+
+        if (lockKey && !sendingKey) {
+            this.sendingKeys.set(lockKey, idempotencyKey);
+        }
+
+        try {
+            return { status: 'sent', data: await this.send<T>(method, endpoint, body, { ...options, idempotencyKey }) };
+        } catch (error) {
+            if (!isConnectivityError(error) || !isBrowser()) {
+                throw error;
+            }
+
+            return {
+                status: 'queued',
+                mutation: await this.enqueue(method, endpoint, body, options.headers, idempotencyKey),
+            };
+        } finally {
+            if (lockKey && !sendingKey) {
+                this.sendingKeys.delete(lockKey);
+            }
+        }
+    }
+
+    /**
+     * 요청을 큐에 추가
+     * @param idempotencyKey - 멱등성 키 (기본: 새로 생성)
+     */
+    async enqueue(
+        method: QueueableMethod,
+        endpoint: string,
+        body?: unknown,
+        headers?: HeadersInit,
+        idempotencyKey: string = createIdempotencyKey()
+    ): Promise<QueuedMutation> {
+        const createdAt = Date.now();
+        const mutation: QueuedMutation = {
+            // 사전순 정렬이 생성 순서와 같도록 고정 길이 시각 + 순번
+            id: `${createdAt.toString().padStart(15, '0')}-${(this.sequence++).toString().padStart(6, '0')}`,
+            method,
+            endpoint,
+            body,
+            headers: headers ? Object.fromEntries(new Headers(headers).entries()) : undefined,
+            idempotencyKey,
+            createdAt,
+            attempts: 0,
+        };
+
+        this.setState({ entries: [...this.state.entries, mutation] });
+        await this.persist(mutation);
+
+        return mutation;
+    }
+
+    /**
+     * 큐 항목 제거
+     */
+    async remove(id: string): Promise<void> {
+        this.setState({ entries: this.state.entries.filter((entry) => entry.id !== id) });
+
+        if (isBrowser()) {
+            const db = await this.getStore();
+            await db.delete(STORE_NAME, id);
+        }
+    }
+
+    /**
+     * 큐 비우기
+     */
+    async clear(): Promise<void> {
+        this.setState({ entries: [] });
+
+        if (isBrowser()) {
+            const db = await this.getStore();
+            await db.clear(STORE_NAME);
+        }
+    }
+
+    /**
+     * 대기 중인 요청을 순서대로 재전송
+     * 이미 진행 중이면 진행 중인 재전송을 함께 기다림 (실패는 로그와 큐 상태로 전달되며 reject되지 않음)
+     */
+    replay(): Promise<void> {
+        if (!this.replayPromise) {
+            this.setState({ isReplaying: true });
+            this.replayPromise = this.runReplay().finally(() => {
+                this.replayPromise = null;
+                this.setState({ isReplaying: false });
+            });
+        }
+
+        return this.replayPromise;
+    }
+
+    /**
+     * 재전송 실행
+     * 예상하지 못한 실패(onConflict 예외 등)는 로그를 남기고 현재 항목을 유지한 채 백오프 후 다시 시도
+     */
+    private async runReplay(): Promise<void> {
+        clearTimeout(this.retryTimer);
+        this.retryTimer = undefined;
+
+        try {
+            await this.replayEntries();
+        } catch (error) {
+            log.error('대기 중인 요청을 재전송하지 못했습니다', { id: this.state.entries[0]?.id, error });
+            this.scheduleRetry((this.state.entries[0]?.attempts ?? 0) + 1, error);
+        }
+    }
+
+    /**
+     * 대기 중인 요청을 앞에서부터 전송
+     * 연결 문제 또는 5xx로 실패하면 해당 항목에서 중단하고 백오프 후 다시 시도 (이후 항목의 순서 보장)
+     */
+    private async replayEntries(): Promise<void> {
+        while (this.state.entries.length > 0) {
+            const mutation = this.state.entries[0];
+
+            let data: unknown;
+
+            try {
+                data = await this.send(mutation.method, mutation.endpoint, mutation.body, {
+                    headers: mutation.headers,
+                    idempotencyKey: mutation.idempotencyKey,
+                    // 재전송은 사용자가 지금 하는 조작보다 뒤에 전송
+                    priority: 'background',
+                });
+            } catch (error) {
+                if (isHttpError(error, 409)) {
+                    const resolution = this.options.onConflict
+                        ? await this.options.onConflict(mutation, error)
+                        : 'discard';
+
+                    if (resolution === 'keep') return;
+                    if (resolution === 'discard') {
+                        await this.discard(mutation.id);
+                        continue;
+                    }
+
+                    // 본문이 바뀐 요청은 다른 작업이므로 새 키 사용
+                    await this.update({
+                        ...mutation,
+                        body: resolution.body,
+                        idempotencyKey: createIdempotencyKey(),
+                        attempts: mutation.attempts + 1,
+                    });
+                    continue;
+                }
+
+                // 토큰 갱신까지 실패한 401: 사용자의 변경을 버리지 않고 다시 로그인할 때까지 대기
+                if (isHttpError(error, 401)) {
+                    this.setState({ isAuthRequired: true });
+                    log.warn('인증이 만료되어 재전송을 멈춥니다', { id: mutation.id });
+                    return;
+                }
+
+                if (isHttpError(error) && error.status < 500) {
+                    await this.discard(mutation.id);
+                    this.options.onDropped?.(mutation, error);
+                    continue;
+                }
+
+                const attempts = mutation.attempts + 1;
+                if (attempts >= this.options.maxAttempts) {
+                    await this.discard(mutation.id);
+                    this.options.onDropped?.(mutation, error);
+                    continue;
+                }
+
+                await this.update({
+                    ...mutation,
+                    attempts,
+                    lastError: error instanceof Error ? error.message : String(error),
+                });
+                this.scheduleRetry(attempts, error);
+                return;
+            }
+
+            this.setState({ isAuthRequired: false });
+            await this.discard(mutation.id);
+            this.options.onReplayed?.(mutation, data);
+        }
+    }
+
+    /**
+     * 백오프 후 재전송 예약 (오프라인이면 online 이벤트에서 재개하므로 예약하지 않음)
+     *
+     * @param attempt - 실패한 시도 횟수 (1부터 시작)
+     * @param error - 실패 원인 (Retry-After 헤더 반영)
+     */
+    private scheduleRetry(attempt: number, error: unknown): void {
+        if (!this.loadPromise || !this.state.isOnline) {
+            return;
+        }
+
+        clearTimeout(this.retryTimer);
+        this.retryTimer = setTimeout(() => void this.replay(), getRetryDelay(attempt, REPLAY_BACKOFF, error));
+    }
+
+    /**
+     * 재전송이 끝난 항목 제거 (저장소 삭제에 실패해도 메모리 큐에서는 제거하고 로그만 남김)
+     */
+    private async discard(id: string): Promise<void> {
+        try {
+            await this.remove(id);
+        } catch (error) {
+            log.error('요청을 저장소에서 삭제하지 못했습니다', { id, error });
+        }
+    }
+
+    /**
+     * 요청 실행
+     */
+    private send<T>(method: QueueableMethod, endpoint: string, body: unknown, options: RequestOptions<T>): Promise<T> {
+        const client = this.options.client ?? apiClient;
+
+        switch (method) {
+            case 'POST':
+                return client.post<T>(endpoint, body, options);
+            case 'PUT':
+                return client.put<T>(endpoint, body, options);
+            case 'PATCH':
+                return client.patch<T>(endpoint, body, options);
+            case 'DELETE':
+                return client.delete<T>(endpoint, options);
+        }
+    }
+
+    /**
+     * 항목 갱신 (시도 횟수, 본문 등)
+     */
+    private async update(mutation: QueuedMutation): Promise<void> {
+        this.setState({
+            entries: this.state.entries.map((entry) => (entry.id === mutation.id ? mutation : entry)),
+        });
+        await this.persist(mutation);
+    }
+
+    /**
+     * 항목 저장
+     */
+    private async persist(mutation: QueuedMutation): Promise<void> {
+        if (!isBrowser()) return;
+
+        try {
+            const db = await this.getStore();
+            await db.put(STORE_NAME, mutation, mutation.id);
+        } catch (error) {
+            // 저장에 실패해도 메모리 큐로는 동작 (새로고침 시 유실)
+            log.error('요청을 저장하지 못했습니다', { id: mutation.id, error });
+        }
+    }
+
+    /**
+     * 데이터베이스 연결
+     */
+    private getStore() {
+        return getDB(this.options.dbName, STORE_NAME, 1);
+    }
+
+    /**
+     * 상태 갱신 및 구독자 알림
+     */
+    private setState(patch: Partial<OfflineQueueState>): void {
+        this.state = { ...this.state, ...patch };
+        this.listeners.forEach((listener) => listener());
+    }
+
+    /**
+     * 온라인/오프라인 전환 처리
+     */
+    private handleConnectivity = (): void => {
+        this.setState({ isOnline: navigator.onLine });
+
+        if (navigator.onLine) {
+            void this.replay();
+        } else {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = undefined;
+        }
+    };
+}
+
+/**
+ * 전역 오프라인 큐 인스턴스 (apiClient 사용)
+ */
+export const offlineQueue = new OfflineQueue();
@@ -0,0 +1,92 @@
+/**
+ * @file 전송 진행률
+ * @description 업로드/다운로드 진행률 계산 및 응답 스트림 기반 다운로드 진행률 추적
+ *
+ * - 업로드: XMLHttpRequest 전송 계층의 upload 이벤트 사용 (xhr-transport.ts)
+ * - 다운로드: 응답 본문 스트림을 읽은 바이트 수와 Content-Length를 비교
+ *
+ * Content-Length가 없으면 total과 percent는 undefined로 전달됩니다.
+ */
+
+/**
+ * 전송 방향
+ */
+export type TransferDirection = 'upload' | 'download';
+
+/**
+ * 전송 진행 상태
+ */
+export interface TransferProgress {
+    /** 전송 방향 */
+    direction: TransferDirection;
+    /** 전송된 바이트 수 */
+    loaded: number;
+    /** 전체 바이트 수 (알 수 없으면 undefined) */
+    total?: number;
+    /** 진행률 0 ~ 100 (전체 크기를 알 수 없으면 undefined) */
+    percent?: number;
+}
+
+/**
+ * 진행률 콜백 타입
+ */
+export type ProgressHandler = (progress: TransferProgress) => void;
+
+/**
+ * 진행 상태 생성
+ */
+export function createProgress(direction: TransferDirection, loaded: number, total?: number): TransferProgress {
+    const knownTotal = total !== undefined && total > 0 ? total : undefined;
+
+    return {
+        direction,
+        loaded,
+        total: knownTotal,
+        percent: knownTotal ? Math.min(100, Math.round((loaded / knownTotal) * 100)) : undefined,
+    };
+}
+
+/**
+ * 요청 본문 크기 계산 (알 수 없으면 undefined)
+ */
+export function getBodySize(body: BodyInit | null | undefined): number | undefined {
+    if (body === undefined || body === null) return 0;
+    if (typeof body === 'string') return new TextEncoder().encode(body).byteLength;
+    if (typeof Blob !== 'undefined' && body instanceof Blob) return body.size;
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+    if (body instanceof URLSearchParams) return new TextEncoder().encode(body.toString()).byteLength;
+    return undefined;
+}
+
+/**
+ * 다운로드 진행률을 보고하는 응답으로 감싸기
+ * 응답 본문을 읽는 만큼 onProgress가 호출됨 (본문이 없으면 원본 반환)
+ *
+ * @param response - 원본 응답
+ * @param onProgress - 진행률 콜백
+ */
+export function trackDownloadProgress(response: Response, onProgress: ProgressHandler): Response {
+    if (!response.body) {
+        return response;
+    }
+
+    const contentLength = Number(response.headers.get('Content-Length'));
+    const total = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : undefined;
+    let loaded = 0;
+
+    onProgress(createProgress('download', 0, total));
+
+    const counter = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            loaded += chunk.byteLength;
+            onProgress(createProgress('download', loaded, total));
+            controller.enqueue(chunk);
+        },
+    });
+
+    return new Response(response.body.pipeThrough(counter), {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    });
+}
@@ -0,0 +1,337 @@
+/**
+ * @file 쿼리 문자열 직렬화/파싱
+ * @description 배열, 날짜, 중첩 객체, null 값을 포함한 쿼리 파라미터의 직렬화와 역파싱
+ *
+ * 배열 형식 (arrayFormat):
+ * - repeat:   `tags=a&tags=b` (기본)
+ * - comma:    `tags=a,b`
+ * - brackets: `tags[]=a&tags[]=b`
+ * - indices:  `tags[0]=a&tags[1]=b`
+ *
+ * 중첩 객체 형식 (objectFormat):
+ * - brackets: `filter[status]=active` (기본)
+ * - dot:      `filter.status=active`
+ *
+ * null 처리 (nullFormat):
+ * - skip:    제외 (기본, undefined는 항상 제외)
+ * - empty:   `key=`
+ * - keyOnly: `key`
+ *
+ * Date는 기본적으로 ISO 8601 문자열로 직렬화됩니다.
+ *
+ * @example
+ * stringifyQuery({ tags: ['a', 'b'], filter: { status: 'active' }, from: new Date(0) });
+ * // 'tags=a&tags=b&filter%5Bstatus%5D=active&from=1970-01-01T00%3A00%3A00.000Z'
+ *
+ * stringifyQuery({ tags: ['a', 'b'] }, { arrayFormat: 'comma' });
+ * // 'tags=a%2Cb'
+ *
+ * parseQuery<{ page: number; tags: string[] }>('?page=2&tags=a&tags=b', { coerce: true });
+ * // { page: 2, tags: ['a', 'b'] }
+ */
+
+/**
+ * 쿼리 파라미터 값
+ */
+export type QueryValue =
+    | string
+    | number
+    | boolean
+    | Date
+    | null
+    | undefined
+    | readonly QueryValue[]
+    | { readonly [key: string]: QueryValue };
+
+/**
+ * 파싱된 쿼리 값
+ */
+export type ParsedQueryValue =
+    | string
+    | number
+    | boolean
+    | null
+    | ParsedQueryValue[]
+    | { [key: string]: ParsedQueryValue };
+
+/**
+ * 배열 직렬화 형식
+ */
+export type ArrayFormat = 'repeat' | 'comma' | 'brackets' | 'indices';
+
+/**
+ * 중첩 객체 직렬화 형식
+ */
+export type ObjectFormat = 'brackets' | 'dot';
+
+/**
+ * null 직렬화 형식
+ */
+export type NullFormat = 'skip' | 'empty' | 'keyOnly';
+
+/**
+ * 쿼리 문자열 직렬화/파싱 옵션
+ */
+export interface QueryStringOptions {
+    /** 배열 형식 (기본: 'repeat') */
+    arrayFormat: ArrayFormat;
+    /** 중첩 객체 형식 (기본: 'brackets') */
+    objectFormat: ObjectFormat;
+    /** null 처리 방식 (기본: 'skip') */
+    nullFormat: NullFormat;
+    /** Date 직렬화 함수 (기본: ISO 8601) */
+    serializeDate: (date: Date) => string;
+}
+
+/**
+ * 쿼리 문자열 파싱 옵션
+ */
+export interface ParseQueryOptions extends Pick<QueryStringOptions, 'arrayFormat' | 'objectFormat'> {
+    /** 숫자/불리언/'null' 문자열을 해당 타입으로 변환 (기본: false) */
+    coerce: boolean;
+}
+
+/**
+ * 기본 직렬화 옵션
+ */
+export const DEFAULT_QUERY_STRING_OPTIONS: QueryStringOptions = {
+    arrayFormat: 'repeat',
+    objectFormat: 'brackets',
+    nullFormat: 'skip',
+    serializeDate: (date) => date.toISOString(),
+};
+
+/**
+ * 원시 값을 문자열로 변환
+ */
+function serializePrimitive(value: string | number | boolean | Date, options: QueryStringOptions): string {
+    return value instanceof Date ? options.serializeDate(value) : String(value);
+}
+
+/**
+ * 키=값 쌍 생성 (null은 nullFormat에 따라 처리)
+ */
+function encodePair(key: string, value: string, options: QueryStringOptions): string;
+function encodePair(key: string, value: string | null, options: QueryStringOptions): string | undefined;
+function encodePair(key: string, value: string | null, options: QueryStringOptions): string | undefined {
+    if (value === null) {
+        if (options.nullFormat === 'empty') return `${encodeURIComponent(key)}=`;
+        if (options.nullFormat === 'keyOnly') return encodeURIComponent(key);
+        return undefined;
+    }
+
+    return `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+}
+
+/**
+ * 값 하나를 키=값 쌍 목록으로 직렬화 (중첩 값은 재귀 처리)
+ */
+function serializeValue(key: string, value: QueryValue, options: QueryStringOptions): string[] {
+    if (value === undefined) {
+        return [];
+    }
+
+    if (value === null) {
+        const pair = encodePair(key, null, options);
+        return pair === undefined ? [] : [pair];
+    }
+
+    if (Array.isArray(value)) {
+        const items = value as readonly QueryValue[];
+
+        switch (options.arrayFormat) {
+            case 'comma': {
+                const primitives = items.filter((item) => item !== undefined && item !== null);
+                return primitives.length > 0
+                    ? [
+                          encodePair(
+                              key,
+                              primitives
+                                  .map((item) => serializePrimitive(item as string | number | boolean | Date, options))
+                                  .join(','),
+                              options
+                          ),
+                      ]
+                    : [];
+            }
+            case 'brackets':
+                return items.flatMap((item) => serializeValue(`${key}[]`, item, options));
+            case 'indices':
+                return items.flatMap((item, index) => serializeValue(`${key}[${index}]`, item, options));
+            default:
+                return items.flatMap((item) => serializeValue(key, item, options));
+        }
+    }
+
+    if (typeof value === 'object' && !(value instanceof Date)) {
+        return Object.entries(value).flatMap(([childKey, childValue]) =>
+            serializeValue(
+                options.objectFormat === 'dot' ? `${key}.${childKey}` : `${key}[${childKey}]`,
+                childValue,
+                options
+            )
+        );
+    }
+
+    return [encodePair(key, serializePrimitive(value, options), options)];
+}
+
+/**
+ * 쿼리 파라미터 객체를 쿼리 문자열로 직렬화 ('?' 제외)
+ *
+ * @param params - 쿼리 파라미터
+ * @param options - 직렬화 옵션
+ * @returns 쿼리 문자열 (파라미터가 없으면 빈 문자열)
+ */
+export function stringifyQuery(
+    params: { readonly [key: string]: QueryValue },
+    options: Partial<QueryStringOptions> = {}
+): string {
+    const resolved = { ...DEFAULT_QUERY_STRING_OPTIONS, ...options };
+
+    return Object.entries(params)
+        .flatMap(([key, value]) => serializeValue(key, value, resolved))
+        .join('&');
+}
+
+/**
+ * 문자열 값 타입 변환 (coerce 옵션)
+ */
+function coerceValue(value: string | null): ParsedQueryValue {
+    if (value === null || value === 'null') return null;
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    if (value.trim() !== '' && /^-?\d+(\.\d+)?$/.test(value) && Number.isSafeInteger(Math.trunc(Number(value)))) {
+        return Number(value);
+    }
+    return value;
+}
+
+/**
+ * 키를 경로 세그먼트로 분리
+ * 'filter[status]' → ['filter', 'status'], 'tags[]' → ['tags', ''], 'a.b' → ['a', 'b'] (dot 형식)
+ */
+function splitKey(key: string, objectFormat: ObjectFormat): string[] {
+    const match = /^([^[]*)((?:\[[^\]]*\])*)$/.exec(key);
+    const head = match ? match[1] : key;
+    const brackets = match && match[2] ? [...match[2].matchAll(/\[([^\]]*)\]/g)].map((m) => m[1]) : [];
+    const headSegments = objectFormat === 'dot' ? head.split('.') : [head];
+
+    return [...headSegments, ...brackets];
+}
+
+/**
+ * 프로토타입 오염에 쓰일 수 있는 키 (경로에 포함되면 해당 항목을 무시)
+ */
+const UNSAFE_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * 파싱 결과 객체 생성
+ * 프로토타입이 없는 객체를 사용하여 'toString' 같은 키가 상속 속성과 섞이지 않도록 함
+ */
+function createRecord(): Record<string, ParsedQueryValue> {
+    return Object.create(null) as Record<string, ParsedQueryValue>;
+}
+
+/**
+ * 파싱 결과 트리에 값 설정
+ * 같은 경로에 값이 여러 번 나오면 배열로 합침
+ */
+function assignPath(
+    target: Record<string, ParsedQueryValue>,
+    segments: string[],
+    value: ParsedQueryValue
+): void {
+    const [segment, ...rest] = segments;
+
+    if (rest.length === 0) {
+        if (Object.hasOwn(target, segment)) {
+            const existing = target[segment];
+            target[segment] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+        } else {
+            target[segment] = value;
+        }
+        return;
+    }
+
+    // 'tags[]' 또는 'tags[0]' → 배열 요소
+    if (rest.length === 1 && (rest[0] === '' || /^\d+$/.test(rest[0]))) {
+        const existing = target[segment];
+        const list = Array.isArray(existing) ? existing : existing === undefined ? [] : [existing];
+
+        if (rest[0] === '') {
+            list.push(value);
+        } else {
+            list[Number(rest[0])] = value;
+        }
+
+        target[segment] = list;
+        return;
+    }
+
+    const child = target[segment];
+    const nested =
+        child && typeof child === 'object' && !Array.isArray(child)
+            ? (child as Record<string, ParsedQueryValue>)
+            : createRecord();
+
+    target[segment] = nested;
+    assignPath(nested, rest, value);
+}
+
+/**
+ * 쿼리 문자열 구성 요소 디코딩
+ * 잘못된 이스케이프(예: '%E0')가 있으면 예외 대신 원래 문자열을 사용
+ */
+function decodeComponent(value: string): string {
+    const spaced = value.replace(/\+/g, ' ');
+
+    try {
+        return decodeURIComponent(spaced);
+    } catch {
+        return spaced;
+    }
+}
+
+/**
+ * 쿼리 문자열을 객체로 파싱 (stringifyQuery의 역변환)
+ *
+ * @param query - 쿼리 문자열 ('?'로 시작해도 됨) 또는 URLSearchParams
+ * @param options - 파싱 옵션
+ * @returns 파싱된 객체 (타입 인자로 결과 형태 지정, 프로토타입이 없는 객체이며 '__proto__' 등의 키는 무시)
+ */
+export function parseQuery<T = Record<string, ParsedQueryValue>>(
+    query: string | URLSearchParams,
+    options: Partial<ParseQueryOptions> = {}
+): T {
+    const { arrayFormat = 'repeat', objectFormat = 'brackets', coerce = false } = options;
+    const source = typeof query === 'string' ? query.replace(/^\?/, '') : query.toString();
+    const result = createRecord();
+
+    source
+        .split('&')
+        .filter(Boolean)
+        .forEach((part) => {
+            const separator = part.indexOf('=');
+            const rawKey = separator === -1 ? part : part.slice(0, separator);
+            const rawValue = separator === -1 ? null : part.slice(separator + 1);
+
+            const key = decodeComponent(rawKey);
+            const decoded = rawValue === null ? null : decodeComponent(rawValue);
+            const convert = (value: string | null) => (coerce ? coerceValue(value) : value);
+
+            const value: ParsedQueryValue =
+                arrayFormat === 'comma' && decoded !== null && decoded.includes(',')
+                    ? decoded.split(',').map(convert)
+                    : convert(decoded);
+
+            const segments = splitKey(key, objectFormat);
+            if (segments.some((segment) => UNSAFE_SEGMENTS.includes(segment))) {
+                return;
+            }
+
+            assignPath(result, segments, value);
+        });
+
+    return result as T;
+}
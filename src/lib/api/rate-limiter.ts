@@ -0,0 +1,321 @@
+/**
+ * @file 클라이언트 요청 속도 제한
+ * @description 호스트별 동시 요청 수 제한, 토큰 버킷 속도 제한, 우선순위 대기열, 429 응답 시 일시 정지
+ *
+ * ApiClient는 요청을 보내기 전에 acquire()로 슬롯을 받고, 응답을 받으면 반환합니다.
+ * - 호스트마다 동시에 maxConcurrent개까지 전송하고, 나머지는 대기열에서 기다림
+ * - 토큰 버킷: 최대 burst개까지 연속 전송, 이후 초당 requestsPerSecond개씩 전송
+ * - 우선순위: 'user'(사용자 조작) 요청이 'background'(일괄 작업, 미리 가져오기) 요청보다 먼저 전송됨
+ * - 429 응답을 받으면 Retry-After 동안 해당 호스트의 대기열 전송을 멈춤 (이미 전송된 요청은 영향 없음)
+ *
+ * @example
+ * // 일괄 작업은 background로 보내 사용자 조작을 막지 않음
+ * await Promise.all(ids.map((id) => apiClient.delete(`/users/${id}`, { priority: 'background' })));
+ *
+ * // 대기열 상태
+ * apiClient.rateLimiter?.subscribe(() => {
+ *   const { queued, active } = apiClient.rateLimiter!.getState();
+ * });
+ */
+
+import { logger } from '@/lib/logger';
+import { AbortError } from './errors';
+
+const log = logger.child('rateLimit');
+
+/**
+ * 요청 우선순위
+ * - user: 사용자 조작으로 발생한 요청 (기본)
+ * - background: 일괄 작업, 미리 가져오기 등 (user 요청이 모두 전송된 뒤 전송)
+ */
+export type RequestPriority = 'user' | 'background';
+
+/**
+ * 속도 제한 설정
+ */
+export interface RateLimitOptions {
+    /** 호스트별 최대 동시 요청 수 (기본: 6) */
+    maxConcurrent: number;
+    /** 연속으로 보낼 수 있는 최대 요청 수 (토큰 버킷 용량, 기본: 20) */
+    burst: number;
+    /** 초당 충전되는 요청 수 (기본: 10) */
+    requestsPerSecond: number;
+    /** Retry-After 헤더 없이 429를 받았을 때 멈추는 시간 (밀리초, 기본: 1000) */
+    defaultPauseMs: number;
+}
+
+/**
+ * 기본 속도 제한 설정
+ */
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+    maxConcurrent: 6,
+    burst: 20,
+    requestsPerSecond: 10,
+    defaultPauseMs: 1000,
+};
+
+/**
+ * 호스트별 대기열 상태
+ */
+export interface HostQueueState {
+    /** 전송 중인 요청 수 */
+    active: number;
+    /** 대기 중인 요청 수 */
+    queued: number;
+    /** 우선순위별 대기 중인 요청 수 */
+    queuedByPriority: Record<RequestPriority, number>;
+    /** 429 응답으로 멈춘 경우 재개 시각 (epoch 밀리초) */
+    pausedUntil: number | null;
+}
+
+/**
+ * 속도 제한 대기열 상태
+ */
+export interface RateLimiterState {
+    /** 전체 전송 중인 요청 수 */
+    active: number;
+    /** 전체 대기 중인 요청 수 */
+    queued: number;
+    /** 호스트별 상태 */
+    hosts: Readonly<Record<string, HostQueueState>>;
+}
+
+/**
+ * 슬롯을 기다리는 요청
+ */
+interface Waiter {
+    resolve: (release: () => void) => void;
+    reject: (error: unknown) => void;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+/**
+ * 호스트별 내부 상태
+ */
+interface HostState {
+    active: number;
+    tokens: number;
+    refilledAt: number;
+    pausedUntil: number | null;
+    queues: Record<RequestPriority, Waiter[]>;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 우선순위 순서 (앞쪽이 먼저 전송)
+ */
+const PRIORITIES: RequestPriority[] = ['user', 'background'];
+
+/**
+ * 요청 URL의 호스트 (상대 경로는 현재 페이지 기준)
+ */
+function getHostKey(url: string): string {
+    try {
+        return new URL(url, typeof location !== 'undefined' ? location.href : 'http://localhost').host;
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * 클라이언트 요청 속도 제한기
+ * 여러 ApiClient가 같은 인스턴스를 공유하면 같은 호스트로 가는 요청을 함께 제한
+ */
+export class RateLimiter {
+    private options: RateLimitOptions;
+
+    /** 호스트별 상태 */
+    private hosts = new Map<string, HostState>();
+
+    /** 현재 상태 (변경될 때마다 새 객체) */
+    private state: RateLimiterState = { active: 0, queued: 0, hosts: {} };
+
+    /** 상태 구독자 */
+    private listeners = new Set<() => void>();
+
+    constructor(options: Partial<RateLimitOptions> = {}) {
+        this.options = { ...DEFAULT_RATE_LIMIT_OPTIONS, ...options };
+    }
+
+    /**
+     * 현재 대기열 상태
+     */
+    getState(): RateLimiterState {
+        return this.state;
+    }
+
+    /**
+     * 상태 변경 구독
+     * @returns 구독 해제 함수
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * 전송 슬롯 요청
+     * 슬롯을 받으면 반환 함수로 resolve되며, 응답을 받은 뒤 반드시 호출해야 함
+     *
+     * @param url - 요청 URL (호스트별로 제한)
+     * @param priority - 우선순위 (기본: 'user')
+     * @param signal - 대기 중 취소 신호 (취소되면 AbortError)
+     */
+    acquire(url: string, priority: RequestPriority = 'user', signal?: AbortSignal): Promise<() => void> {
+        if (signal?.aborted) {
+            return Promise.reject(new AbortError(signal.reason));
+        }
+
+        const key = getHostKey(url);
+        const host = this.getHost(key);
+
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = { resolve, reject, signal };
+
+            if (signal) {
+                waiter.onAbort = () => {
+                    host.queues[priority] = host.queues[priority].filter((item) => item !== waiter);
+                    reject(new AbortError(signal.reason));
+                    this.publish();
+                };
+                signal.addEventListener('abort', waiter.onAbort, { once: true });
+            }
+
+            host.queues[priority].push(waiter);
+            this.drain(key);
+        });
+    }
+
+    /**
+     * 호스트의 대기열 전송 일시 정지 (429 응답 등)
+     * 이미 멈춰 있으면 더 늦은 재개 시각을 사용
+     *
+     * @param url - 요청 URL
+     * @param durationMs - 멈출 시간 (밀리초, 없으면 defaultPauseMs)
+     */
+    pause(url: string, durationMs?: number | null): void {
+        const key = getHostKey(url);
+        const host = this.getHost(key);
+        const until = Date.now() + (durationMs ?? this.options.defaultPauseMs);
+
+        if (host.pausedUntil === null || until > host.pausedUntil) {
+            host.pausedUntil = until;
+            log.warn('요청이 너무 많아 전송을 일시 정지합니다.', {
+                host: key,
+                resumeAt: new Date(until).toISOString(),
+            });
+        }
+
+        this.drain(key);
+    }
+
+    /**
+     * 호스트 상태 조회 (없으면 생성)
+     */
+    private getHost(key: string): HostState {
+        let host = this.hosts.get(key);
+
+        if (!host) {
+            host = {
+                active: 0,
+                tokens: this.options.burst,
+                refilledAt: Date.now(),
+                pausedUntil: null,
+                queues: { user: [], background: [] },
+            };
+            this.hosts.set(key, host);
+        }
+
+        return host;
+    }
+
+    /**
+     * 경과 시간만큼 토큰 충전
+     */
+    private refill(host: HostState, now: number): void {
+        const elapsed = now - host.refilledAt;
+        host.tokens = Math.min(this.options.burst, host.tokens + (elapsed * this.options.requestsPerSecond) / 1000);
+        host.refilledAt = now;
+    }
+
+    /**
+     * 대기열에서 보낼 수 있는 요청에 슬롯 할당
+     * 멈춤이나 토큰 부족으로 보낼 수 없으면 다시 확인할 시점을 예약
+     */
+    private drain(key: string): void {
+        const host = this.getHost(key);
+        const now = Date.now();
+
+        clearTimeout(host.timer);
+        host.timer = undefined;
+
+        if (host.pausedUntil !== null && host.pausedUntil <= now) {
+            host.pausedUntil = null;
+        }
+
+        while (host.pausedUntil === null && host.active < this.options.maxConcurrent) {
+            const priority = PRIORITIES.find((item) => host.queues[item].length > 0);
+            if (!priority) break;
+
+            this.refill(host, now);
+            if (host.tokens < 1) {
+                const waitMs = Math.ceil(((1 - host.tokens) * 1000) / this.options.requestsPerSecond);
+                host.timer = setTimeout(() => this.drain(key), waitMs);
+                break;
+            }
+
+            const waiter = host.queues[priority].shift()!;
+            if (waiter.onAbort) waiter.signal?.removeEventListener('abort', waiter.onAbort);
+
+            host.tokens -= 1;
+            host.active += 1;
+            waiter.resolve(this.createRelease(key));
+        }
+
+        // 멈춘 동안에는 재개 시각에 다시 확인 (대기 중인 요청이 없어도 상태 갱신)
+        if (host.pausedUntil !== null) {
+            host.timer = setTimeout(() => this.drain(key), host.pausedUntil - now);
+        }
+
+        this.publish();
+    }
+
+    /**
+     * 슬롯 반환 함수 생성 (여러 번 호출해도 한 번만 반환)
+     */
+    private createRelease(key: string): () => void {
+        let released = false;
+
+        return () => {
+            if (released) return;
+            released = true;
+
+            this.getHost(key).active -= 1;
+            this.drain(key);
+        };
+    }
+
+    /**
+     * 상태 스냅샷 갱신 후 구독자에게 알림
+     */
+    private publish(): void {
+        const hosts: Record<string, HostQueueState> = {};
+        let active = 0;
+        let queued = 0;
+
+        this.hosts.forEach((host, key) => {
+            const queuedByPriority = { user: host.queues.user.length, background: host.queues.background.length };
+            const hostQueued = queuedByPriority.user + queuedByPriority.background;
+
+            active += host.active;
+            queued += hostQueued;
+            hosts[key] = { active: host.active, queued: hostQueued, queuedByPriority, pausedUntil: host.pausedUntil };
+        });
+
+        this.state = { active, queued, hosts };
+        this.listeners.forEach((listener) => listener());
+    }
+}
@@ -0,0 +1,201 @@
+/**
+ * @file API 재시도 정책
+ * @description 일시적인 서버 오류/네트워크 장애에 대한 재시도 판단 및 대기 시간 계산
+ *
+ * 특징:
+ * - 지수 백오프 + 지터 (동시 재시도 폭주 방지)
+ * - 429/503 응답의 Retry-After 헤더 준수
+ * - 기본적으로 멱등(idempotent) 메서드만 재시도
+ *
+ * @example
+ * // 클라이언트 전체 정책
+ * apiClient.setRetryPolicy({ maxAttempts: 5 });
+ *
+ * // 요청별 정책
+ * await apiClient.post('/reports', body, { retry: { retryMethods: ['POST'] } });
+ * await apiClient.get('/health', { retry: false });
+ */
+
+import { AbortError, isHttpError, isNetworkError } from './errors';
+
+/**
+ * 재시도 정책
+ */
+export interface RetryPolicy {
+    /** 최대 시도 횟수 (최초 요청 포함) */
+    maxAttempts: number;
+    /** 첫 재시도 대기 시간 (밀리초, 시도마다 2배씩 증가) */
+    baseDelayMs: number;
+    /** 백오프 대기 시간 상한 (밀리초) */
+    maxDelayMs: number;
+    /** 대기 시간에 무작위 지터 적용 여부 */
+    jitter: boolean;
+    /** 재시도할 HTTP 상태 코드 */
+    retryOnStatus: number[];
+    /** 재시도할 HTTP 메서드 */
+    retryMethods: string[];
+    /** 네트워크 장애(fetch 실패) 시 재시도 여부 */
+    retryOnNetworkError: boolean;
+    /** 허용하는 Retry-After 최대 대기 시간 (밀리초, 초과 시 재시도하지 않음) */
+    maxRetryAfterMs: number;
+}
+
+/**
+ * 재시도 정보
+ * retry 이벤트 및 onRetry 콜백에 전달
+ */
+export interface RetryInfo {
+    /** HTTP 메서드 */
+    method: string;
+    /** API 엔드포인트 */
+    endpoint: string;
+    /** 실패한 시도 번호 (1부터 시작) */
+    attempt: number;
+    /** 최대 시도 횟수 */
+    maxAttempts: number;
+    /** 다음 시도까지 대기 시간 (밀리초) */
+    delayMs: number;
+    /** 실패 원인 */
+    error: unknown;
+}
+
+/**
+ * 기본 재시도 정책
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 300,
+    maxDelayMs: 5000,
+    jitter: true,
+    retryOnStatus: [408, 429, 502, 503, 504],
+    retryMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+    retryOnNetworkError: true,
+    maxRetryAfterMs: 30000,
+};
+
+/**
+ * Retry-After 헤더를 준수하는 상태 코드
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * 기본 정책과 부분 정책 병합
+ * @returns 병합된 정책 (false면 재시도 비활성화로 null)
+ */
+export function resolveRetryPolicy(
+    base: RetryPolicy | null,
+    override?: Partial<RetryPolicy> | false
+): RetryPolicy | null {
+    if (override === false) return null;
+    if (!override) return base;
+
+    return { ...(base ?? DEFAULT_RETRY_POLICY), ...override };
+}
+
+/**
+ * Retry-After 헤더 파싱
+ * 초 단위 숫자 또는 HTTP 날짜 형식을 지원
+ *
+ * @returns 대기 시간 (밀리초), 파싱할 수 없으면 null
+ *
+ * @example
+ * parseRetryAfter('120'); // 120000
+ * parseRetryAfter('Wed, 21 Oct 2026 07:28:00 GMT'); // 해당 시각까지 남은 시간
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return null;
+}
+
+/**
+ * 에러에 포함된 Retry-After 대기 시간 추출 (429/503 응답만)
+ */
+function getRetryAfterMs(error: unknown): number | null {
+    if (!isHttpError(error) || !RETRY_AFTER_STATUSES.includes(error.status)) {
+        return null;
+    }
+
+    return parseRetryAfter(error.headers.get('Retry-After'));
+}
+
+/**
+ * 재시도 가능 여부 판단
+ *
+ * @param error - 실패 원인
+ * @param method - HTTP 메서드
+ * @param policy - 재시도 정책
+ */
+export function shouldRetry(error: unknown, method: string, policy: RetryPolicy): boolean {
+    if (!policy.retryMethods.includes(method.toUpperCase())) {
+        return false;
+    }
+
+    // 서버에 도달하지 못한 경우 (타임아웃/취소 제외)
+    if (isNetworkError(error)) {
+        return policy.retryOnNetworkError;
+    }
+
+    if (!isHttpError(error) || !policy.retryOnStatus.includes(error.status)) {
+        return false;
+    }
+
+    // 서버가 요구한 대기 시간이 너무 길면 재시도하지 않음
+    const retryAfterMs = getRetryAfterMs(error);
+    return retryAfterMs === null || retryAfterMs <= policy.maxRetryAfterMs;
+}
+
+/**
+ * 다음 재시도까지 대기 시간 계산
+ * Retry-After 헤더가 있으면 우선 적용하고, 없으면 지수 백오프 사용
+ *
+ * @param attempt - 실패한 시도 번호 (1부터 시작)
+ * @param policy - 재시도 정책
+ * @param error - 실패 원인
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy, error: unknown): number {
+    const retryAfterMs = getRetryAfterMs(error);
+    if (retryAfterMs !== null) {
+        return retryAfterMs;
+    }
+
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+
+    // Full jitter: 0 ~ backoff 사이 무작위 값
+    return policy.jitter ? Math.round(Math.random() * backoff) : backoff;
+}
+
+/**
+ * 지정된 시간만큼 대기
+ * 대기 중 signal이 취소되면 AbortError로 reject
+ */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AbortError(signal.reason));
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortError(signal?.reason));
+        };
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
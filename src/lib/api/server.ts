@@ -0,0 +1,165 @@
+/**
+ * @file 서버용 API 클라이언트
+ * @description 서버 컴포넌트, 서버 액션, 라우트 핸들러에서 사용하는 요청 단위 ApiClient와 캐시 태그 헬퍼
+ *
+ * 전역 apiClient는 토큰을 모듈 싱글톤에 보관하므로 서버에서 사용하면 사용자 간에 토큰이 섞일 수 있습니다.
+ * 서버에서는 요청마다 createServerApiClient()로 인스턴스를 만들어 쿠키의 토큰을 사용합니다.
+ * 쿠키 세션 모드(config.api.auth === 'cookie')에서는 수신 요청의 쿠키를 백엔드에 그대로 전달하고,
+ * 변경 요청에 CSRF 쿠키 값을 CSRF 헤더로 붙입니다.
+ *
+ * next/headers, next/cache를 사용하므로 '@/lib/api' 배럴에서 export하지 않습니다.
+ * 반드시 '@/lib/api/server'에서 직접 import하세요.
+ *
+ * 캐시 태그는 엔드포인트 경로 세그먼트로 만들어 쿼리 키(endpointQueryKey)와 같은 규칙을 따릅니다.
+ * - GET /users/1 → ['users', 'users/1']
+ * - revalidateTag('users') → 목록과 상세 캐시 모두 무효화
+ *
+ * @example
+ * // 서버 컴포넌트: 태그를 붙여 Next.js 데이터 캐시에 저장
+ * const api = await createServerApiClient();
+ * const user = await callEndpoint(ENDPOINTS.USERS.DETAIL, {
+ *   client: api,
+ *   params: { id },
+ *   next: { tags: endpointTags(ENDPOINTS.USERS.DETAIL, { id }), revalidate: 60 },
+ * });
+ *
+ * // 사용자별 데이터는 캐시하지 않음
+ * const me = await callEndpoint(ENDPOINTS.AUTH.ME, { client: api, cache: 'no-store' });
+ *
+ * // 서버 액션: 변경 후 관련 태그 무효화
+ * export async function updateUser(id: string, body: UpdateUserRequest) {
+ *   'use server';
+ *   const api = await createServerApiClient();
+ *   return mutateAndRevalidate(
+ *     () => callEndpoint(ENDPOINTS.USERS.UPDATE, { client: api, params: { id }, body }),
+ *     endpointTags(ENDPOINTS.USERS.LIST)
+ *   );
+ * }
+ */
+
+import { revalidateTag } from 'next/cache';
+import { cookies, headers } from 'next/headers';
+import { config } from '@/config';
+import { TokenSource, cookieSessionAuth } from './auth';
+import { createApiClient, type ApiClient, type ApiClientOptions } from './client';
+import { buildPath, type EndpointDefinition } from './define-endpoint';
+import { DEFAULT_HEADERS } from './endpoints';
+
+/**
+ * 액세스 토큰 쿠키 이름
+ */
+export const AUTH_TOKEN_COOKIE = 'access_token';
+
+/**
+ * 기본으로 백엔드에 전달하는 수신 요청 헤더
+ */
+export const DEFAULT_FORWARDED_HEADERS = ['accept-language', 'user-agent', 'x-forwarded-for', 'x-request-id'];
+
+/**
+ * createServerApiClient 옵션
+ */
+export interface ServerApiClientOptions extends Omit<ApiClientOptions, 'tokenSource' | 'headers'> {
+    /** 액세스 토큰을 읽을 쿠키 이름 (bearer 모드, 기본: AUTH_TOKEN_COOKIE) */
+    tokenCookie?: string;
+    /** 수신 요청에서 백엔드로 전달할 헤더 이름 (기본: DEFAULT_FORWARDED_HEADERS) */
+    forwardHeaders?: string[];
+    /** 추가 기본 헤더 (전달된 헤더보다 우선) */
+    headers?: Record<string, string>;
+}
+
+/**
+ * 현재 요청의 쿠키/헤더로 서버용 ApiClient 생성
+ * 요청마다 새 인스턴스를 만들므로 토큰이 다른 사용자와 공유되지 않음
+ *
+ * 서버에서는 쿠키를 갱신할 수 없으므로 401 토큰 자동 갱신은 기본적으로 비활성화되어 있습니다.
+ *
+ * @param options - 쿠키 이름, 전달 헤더 및 ApiClient 옵션
+ * @returns 요청 단위 ApiClient
+ */
+export async function createServerApiClient(options: ServerApiClientOptions = {}): Promise<ApiClient> {
+    const {
+        tokenCookie = AUTH_TOKEN_COOKIE,
+        forwardHeaders = DEFAULT_FORWARDED_HEADERS,
+        headers: extraHeaders,
+        ...clientOptions
+    } = options;
+
+    const [cookieStore, requestHeaders] = await Promise.all([cookies(), headers()]);
+
+    const isCookieSession = config.api.auth === 'cookie';
+
+    // 쿠키 세션 모드는 세션 쿠키와 CSRF 쿠키를 백엔드에 그대로 전달
+    const forwarded: Record<string, string> = {};
+    [...forwardHeaders, ...(isCookieSession ? ['cookie'] : [])].forEach((name) => {
+        const value = requestHeaders.get(name);
+        if (value !== null) {
+            forwarded[name] = value;
+        }
+    });
+
+    return createApiClient({
+        timeoutMs: config.api.timeoutMs,
+        validation: config.api.validation,
+        // 목 데이터 모드에서는 인프로세스 목 백엔드로 요청 처리 (apiClient와 동일)
+        fetch: config.features.useMockData
+            ? (input, init) => import('./mock').then(({ mockBackend }) => mockBackend.fetch(input, init))
+            : undefined,
+        // 서버에는 document.cookie가 없으므로 수신 요청의 CSRF 쿠키를 읽음
+        auth: isCookieSession
+            ? cookieSessionAuth({ getCookie: (name) => cookieStore.get(name)?.value ?? null })
+            : undefined,
+        ...clientOptions,
+        headers: { ...(DEFAULT_HEADERS as Record<string, string>), ...forwarded, ...extraHeaders },
+        tokenSource: new TokenSource(isCookieSession ? null : (cookieStore.get(tokenCookie)?.value ?? null)),
+    });
+}
+
+/**
+ * 엔드포인트 캐시 태그 생성
+ * 경로 세그먼트의 누적 접두사 목록 (쿼리 키 접두사 무효화와 같은 단위)
+ *
+ * @param endpoint - 엔드포인트 정의
+ * @param params - 경로 파라미터 (없으면 ':param' 앞까지만 사용)
+ * @returns 캐시 태그 목록
+ *
+ * @example
+ * endpointTags(ENDPOINTS.USERS.DETAIL, { id: 1 }); // ['users', 'users/1']
+ * endpointTags(ENDPOINTS.USERS.DETAIL);            // ['users']
+ */
+export function endpointTags(
+    endpoint: EndpointDefinition,
+    params?: Record<string, string | number>
+): string[] {
+    const path = params ? buildPath(endpoint.path, params) : endpoint.path;
+    const segments: string[] = [];
+
+    for (const segment of path.split('/').filter(Boolean)) {
+        // 값이 채워지지 않은 경로 파라미터부터는 제외
+        if (segment.startsWith(':')) break;
+        segments.push(segment);
+    }
+
+    return segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+}
+
+/**
+ * 캐시 태그 무효화
+ * 서버 액션 또는 라우트 핸들러에서만 호출 가능
+ */
+export function revalidateTags(tags: readonly string[]): void {
+    new Set(tags).forEach((tag) => revalidateTag(tag));
+}
+
+/**
+ * 변경 요청 실행 후 캐시 태그 무효화
+ * 요청이 실패하면 무효화하지 않고 에러를 그대로 전달
+ *
+ * @param mutation - 변경 요청 함수
+ * @param tags - 성공 시 무효화할 태그
+ * @returns 변경 요청 결과
+ */
+export async function mutateAndRevalidate<T>(mutation: () => Promise<T>, tags: readonly string[]): Promise<T> {
+    const result = await mutation();
+    revalidateTags(tags);
+    return result;
+}
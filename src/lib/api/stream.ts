@@ -0,0 +1,205 @@
+/**
+ * @file 스트리밍 응답 파서
+ * @description Server-Sent Events(text/event-stream)와 NDJSON(application/x-ndjson) 응답을 비동기 이터레이터로 변환
+ *
+ * ApiClient.stream()이 내부적으로 사용하며, 응답 스트림을 직접 다룰 때도 사용할 수 있습니다.
+ *
+ * @example
+ * for await (const event of apiClient.stream<JobProgress>('/jobs/1/progress')) {
+ *   setProgress(event.data.percent);
+ * }
+ *
+ * for await (const line of apiClient.stream<LogLine>('/jobs/1/logs', { format: 'ndjson' })) {
+ *   appendLog(line);
+ * }
+ */
+
+import type { RequestOptions } from './types';
+
+/**
+ * 스트림 형식
+ */
+export type StreamFormat = 'sse' | 'ndjson';
+
+/**
+ * Server-Sent Event
+ *
+ * @template T - data 필드 타입 (parseData 결과)
+ */
+export interface ServerSentEvent<T = unknown> {
+    /** 이벤트 이름 (기본: 'message') */
+    event: string;
+    /** 파싱된 데이터 */
+    data: T;
+    /** 원본 data 문자열 (여러 줄이면 '\n'으로 연결) */
+    rawData: string;
+    /** 이벤트 ID (재연결 시 Last-Event-ID로 전송) */
+    id?: string;
+    /** 서버가 지정한 재연결 대기 시간 (밀리초) */
+    retry?: number;
+}
+
+/**
+ * 재연결 설정
+ */
+export interface StreamReconnectOptions {
+    /** 연속 재연결 최대 횟수 (이벤트를 받으면 초기화, 기본: 5) */
+    maxAttempts: number;
+    /** 재연결 대기 시간 (밀리초, 서버의 retry 필드가 있으면 우선, 기본: 3000) */
+    delayMs: number;
+}
+
+/**
+ * stream() 옵션
+ *
+ * @template T - 이벤트 데이터(SSE) 또는 레코드(NDJSON) 타입
+ */
+export interface StreamOptions<T = unknown> extends Omit<RequestOptions<T>, 'responseType' | 'schema' | 'onProgress'> {
+    /** 스트림 형식 (기본: 'sse') */
+    format?: StreamFormat;
+    /** HTTP 메서드 (기본: 'GET') */
+    method?: 'GET' | 'POST';
+    /** 요청 본문 (POST 스트림) */
+    body?: unknown;
+    /** 마지막으로 받은 이벤트 ID (이어 받기) */
+    lastEventId?: string;
+    /**
+     * 연결이 끊기면 재연결 (기본: SSE는 활성화, NDJSON은 비활성화)
+     * 취소, 4xx 응답은 재연결하지 않음
+     */
+    reconnect?: Partial<StreamReconnectOptions> | boolean;
+    /** 데이터 문자열 파싱 함수 (기본: JSON 파싱, 실패 시 문자열 그대로) */
+    parseData?: (data: string) => T;
+    /** 응답 헤더를 받아 스트림이 열렸을 때 호출 */
+    onOpen?: (response: { status: number; headers: Headers }) => void;
+    /** 재연결 직전 호출 */
+    onReconnect?: (info: { attempt: number; delayMs: number; lastEventId?: string; error?: unknown }) => void;
+}
+
+/**
+ * 기본 재연결 설정
+ */
+export const DEFAULT_STREAM_RECONNECT: StreamReconnectOptions = {
+    maxAttempts: 5,
+    delayMs: 3000,
+};
+
+/**
+ * 기본 데이터 파싱 (JSON, 실패 시 문자열)
+ */
+export function parseStreamData<T>(data: string): T {
+    try {
+        return JSON.parse(data) as T;
+    } catch {
+        return data as T;
+    }
+}
+
+/**
+ * 바이트 스트림을 줄 단위로 읽기 (\n, \r\n, \r 구분)
+ */
+async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+
+            // 청크 끝의 '\r'은 다음 청크의 '\n'과 합쳐 하나의 줄바꿈(\r\n)일 수 있으므로 다음 청크까지 보류
+            const heldCr = buffer.endsWith('\r');
+            const lines = (heldCr ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+            // 마지막 요소는 아직 끝나지 않은 줄
+            buffer = (lines.pop() ?? '') + (heldCr ? '\r' : '');
+
+            for (const line of lines) {
+                yield line;
+            }
+        }
+
+        buffer += decoder.decode();
+        // 보류한 '\r'은 마지막 줄의 끝 (빈 줄이어도 이벤트 전달을 위해 반환)
+        if (buffer.endsWith('\r')) {
+            yield buffer.slice(0, -1);
+        } else if (buffer) {
+            yield buffer;
+        }
+    } finally {
+        // 소비자가 중간에 반복을 멈추면 연결 종료
+        await reader.cancel().catch(() => undefined);
+        reader.releaseLock();
+    }
+}
+
+/**
+ * SSE 스트림 파싱
+ * HTML 표준의 이벤트 스트림 해석 규칙을 따름 (주석 줄 무시, 빈 줄에서 이벤트 전달)
+ *
+ * @param stream - 응답 본문 스트림
+ * @param parseData - data 문자열 파싱 함수
+ */
+export async function* parseSse<T>(
+    stream: ReadableStream<Uint8Array>,
+    parseData: (data: string) => T = parseStreamData
+): AsyncGenerator<ServerSentEvent<T>> {
+    let event = '';
+    let data: string[] = [];
+    let id: string | undefined;
+    let retry: number | undefined;
+
+    for await (const line of readLines(stream)) {
+        if (line === '') {
+            if (data.length > 0) {
+                const rawData = data.join('\n');
+                yield { event: event || 'message', data: parseData(rawData), rawData, id, retry };
+            }
+            event = '';
+            data = [];
+            retry = undefined;
+            continue;
+        }
+
+        if (line.startsWith(':')) continue;
+
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+        switch (field) {
+            case 'event':
+                event = value;
+                break;
+            case 'data':
+                data.push(value);
+                break;
+            case 'id':
+                // NULL 문자를 포함한 ID는 무시 (표준 규칙)
+                if (!value.includes('\0')) id = value;
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) retry = Number(value);
+                break;
+        }
+    }
+}
+
+/**
+ * NDJSON 스트림 파싱 (한 줄에 JSON 하나, 빈 줄 무시)
+ *
+ * @param stream - 응답 본문 스트림
+ * @param parseData - 줄 파싱 함수
+ */
+export async function* parseNdjson<T>(
+    stream: ReadableStream<Uint8Array>,
+    parseData: (data: string) => T = (line) => JSON.parse(line) as T
+): AsyncGenerator<T> {
+    for await (const line of readLines(stream)) {
+        if (line.trim()) {
+            yield parseData(line);
+        }
+    }
+}
@@ -0,0 +1,206 @@
+/**
+ * @file 요청 추적 및 타이밍 측정
+ * @description W3C Trace Context(traceparent)와 X-Request-Id 헤더 생성, 요청별 타이밍 측정
+ *
+ * ApiClient는 논리적인 호출마다 trace ID를 하나 만들고(재시도와 토큰 갱신 후 재요청은 같은 trace),
+ * 실제로 보내는 HTTP 요청마다 span ID와 요청 ID를 새로 만들어 헤더에 붙입니다.
+ * 요청이 끝나면 타이밍, 상태 코드, 크기를 담은 RequestMetrics를 'metrics' 이벤트로 전달합니다.
+ *
+ * @example
+ * // 느린 요청을 수집 서버로 전송
+ * apiClient.on('metrics', (metrics) => {
+ *   if (metrics.totalMs > 1000) logger.child('perf').warn('느린 API 요청', { ...metrics });
+ * });
+ *
+ * // 서버 로그와 대조
+ * catch (error) {
+ *   if (isApiError(error)) {
+ *     reportIssue({ requestId: error.requestId ?? error.clientRequestId, traceId: error.traceId });
+ *   }
+ * }
+ */
+
+import { REQUEST_ID_HEADER } from './errors';
+
+/**
+ * W3C Trace Context 요청 헤더
+ */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+/**
+ * 요청 추적 설정
+ */
+export interface TracingOptions {
+    /** traceparent 헤더 전송 여부 (기본: true) */
+    traceparent: boolean;
+    /** 요청 ID 헤더 이름 (기본: 'X-Request-Id', false면 보내지 않음) */
+    requestIdHeader: string | false;
+}
+
+/**
+ * 기본 요청 추적 설정
+ */
+export const DEFAULT_TRACING_OPTIONS: TracingOptions = {
+    traceparent: true,
+    requestIdHeader: REQUEST_ID_HEADER,
+};
+
+/**
+ * 요청 하나의 측정 결과 ('metrics' 이벤트 페이로드)
+ */
+export interface RequestMetrics {
+    /** HTTP 메서드 */
+    method: string;
+    /** API 엔드포인트 (기본 URL 제외) */
+    endpoint: string;
+    /** 요청 URL */
+    url: string;
+    /** trace ID (같은 호출의 재시도는 같은 값) */
+    traceId: string;
+    /** 클라이언트가 보낸 요청 ID */
+    requestId: string;
+    /** 서버가 응답 헤더로 보낸 요청 ID */
+    serverRequestId?: string;
+    /** HTTP 상태 코드 (응답을 받지 못하면 0) */
+    status: number;
+    /** 요청 성공 여부 (응답 인터셉터와 스키마 검증 결과 포함) */
+    ok: boolean;
+    /** 304 응답을 HTTP 캐시의 본문으로 대체했는지 여부 */
+    fromCache: boolean;
+    /** 응답 본문 크기 (바이트, Content-Length 또는 본문에서 확인할 수 없으면 null) */
+    size: number | null;
+    /** 요청 시작 시각 (epoch 밀리초) */
+    startedAt: number;
+    /** 시작부터 전송까지 (헤더 구성, 요청 인터셉터, 캐시 조회 등, 밀리초) */
+    queueMs: number;
+    /** 전송부터 응답 헤더 수신까지 (밀리초, 응답이 없으면 null) */
+    ttfbMs: number | null;
+    /** 시작부터 본문 파싱 완료까지 (밀리초) */
+    totalMs: number;
+    /** 실패한 경우 에러 이름 (예: 'HttpError', 'TimeoutError') */
+    error?: string;
+}
+
+/**
+ * 고해상도 현재 시각 (밀리초)
+ */
+function now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * 지정한 바이트 수의 무작위 16진수 문자열
+ */
+function randomHex(byteLength: number): string {
+    const bytes = new Uint8Array(byteLength);
+
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+        crypto.getRandomValues(bytes);
+    } else {
+        bytes.forEach((_, index) => {
+            bytes[index] = Math.floor(Math.random() * 256);
+        });
+    }
+
+    const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+    // 모두 0인 ID는 W3C Trace Context에서 유효하지 않음
+    return /^0+$/.test(hex) ? randomHex(byteLength) : hex;
+}
+
+/**
+ * trace ID 생성 (16바이트, 32자리 16진수)
+ */
+export function createTraceId(): string {
+    return randomHex(16);
+}
+
+/**
+ * span ID 생성 (8바이트, 16자리 16진수)
+ */
+export function createSpanId(): string {
+    return randomHex(8);
+}
+
+/**
+ * 요청 ID 생성 (16바이트, 32자리 16진수)
+ */
+export function createRequestId(): string {
+    return randomHex(16);
+}
+
+/**
+ * traceparent 헤더 값 생성 (version 00, sampled 플래그)
+ *
+ * @example
+ * formatTraceparent('4bf92f3577b34da6a3ce929d0e0e4736', '00f067aa0ba902b7');
+ * // '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+ */
+export function formatTraceparent(traceId: string, spanId: string): string {
+    return `00-${traceId}-${spanId}-01`;
+}
+
+/**
+ * 응답 본문 크기 확인
+ * Content-Length 헤더를 우선 사용하고, 없으면 문자열/Blob/ArrayBuffer 본문에서 계산
+ */
+export function getResponseSize(headers: Headers | undefined, data: unknown): number | null {
+    const contentLength = Number(headers?.get('Content-Length') ?? NaN);
+    if (Number.isFinite(contentLength)) {
+        return contentLength;
+    }
+
+    if (typeof data === 'string') {
+        return new TextEncoder().encode(data).length;
+    }
+    if (typeof Blob !== 'undefined' && data instanceof Blob) {
+        return data.size;
+    }
+    if (data instanceof ArrayBuffer) {
+        return data.byteLength;
+    }
+
+    return null;
+}
+
+/**
+ * 요청 타이밍 측정
+ * 시작 시점에 생성하고 전송, 응답 헤더 수신 시점에 표시한 뒤 finish()로 결과 계산
+ */
+export class RequestTimer {
+    /** 시작 시각 (epoch 밀리초) */
+    readonly startedAt = Date.now();
+
+    private start = now();
+    private dispatchedAt?: number;
+    private headersAt?: number;
+
+    /**
+     * 전송 시점 표시
+     */
+    dispatched(): void {
+        this.dispatchedAt = now();
+    }
+
+    /**
+     * 응답 헤더 수신 시점 표시
+     */
+    headersReceived(): void {
+        this.headersAt = now();
+    }
+
+    /**
+     * 측정 결과 계산
+     */
+    finish(): Pick<RequestMetrics, 'startedAt' | 'queueMs' | 'ttfbMs' | 'totalMs'> {
+        const end = now();
+        const dispatchedAt = this.dispatchedAt ?? end;
+
+        return {
+            startedAt: this.startedAt,
+            queueMs: Math.round(dispatchedAt - this.start),
+            ttfbMs: this.headersAt === undefined ? null : Math.round(this.headersAt - dispatchedAt),
+            totalMs: Math.round(end - this.start),
+        };
+    }
+}
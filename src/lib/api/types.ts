@@ -3,6 +3,12 @@
  * @description 백엔드 API 통신에 사용되는 공통 타입들
  */
 
+import type { ProgressHandler } from './progress';
+import type { RequestPriority } from './rate-limiter';
+import type { QueryStringOptions, QueryValue } from './query-string';
+import type { RetryInfo, RetryPolicy } from './retry';
+import type { ResponseSchema } from './validation';
+
 /**
  * API 응답 래퍼 타입
  * 모든 API 응답은 이 형태로 반환됨
@@ -12,17 +18,27 @@ export interface ApiResponse<T> {
     data: T;
     /** HTTP 상태 코드 */
     status: number;
+    /** 응답 헤더 */
+    headers: Headers;
+    /** 응답을 만든 요청 설정 */
+    config: RequestConfig;
+    /** HTTP 캐시의 본문으로 만든 응답인지 여부 (서버가 304를 반환한 경우) */
+    fromCache?: boolean;
 }
 
 /**
- * API 에러 타입
- * API 호출 실패 시 발생하는 에러 객체
+ * 서버 에러 응답 본문 타입
+ * 2xx 이외의 응답에서 서버가 보내는 본문 형태 (모든 필드 선택)
  */
-export interface ApiError extends Error {
-    /** HTTP 상태 코드 */
-    status: number;
+export interface ServerErrorBody {
     /** 에러 메시지 */
-    message: string;
+    message?: string;
+    /** 서버 에러 코드 */
+    code?: string;
+    /** 요청 ID */
+    requestId?: string;
+    /** 필드별 에러 */
+    errors?: Record<string, string | string[]> | { field: string; message: string }[];
 }
 
 /**
@@ -36,8 +52,121 @@ export interface RequestConfig {
     url: string;
     /** 요청 헤더 */
     headers: HeadersInit;
-    /** 요청 본문 (JSON 문자열) */
-    body?: string;
+    /** 요청 본문 (객체는 JSON 문자열, FormData/Blob 등은 그대로) */
+    body?: BodyInit;
+    /** 요청 취소 신호 (타임아웃 및 호출자 신호가 합쳐진 신호) */
+    signal?: AbortSignal;
+    /** 응답 본문 파싱 방식 */
+    responseType: ResponseType;
+    /** fetch 캐시 모드 */
+    cache?: RequestCache;
+    /** Next.js 데이터 캐시 옵션 */
+    next?: NextCacheOptions;
+    /** 쿠키 전송 방식 (인증 전략이 지정, 쿠키 세션은 'include') */
+    credentials?: RequestCredentials;
+}
+
+/**
+ * Next.js 데이터 캐시 옵션 (서버에서 fetch의 next 옵션으로 전달)
+ */
+export interface NextCacheOptions {
+    /** 재검증 주기 (초, false면 무기한 캐시) */
+    revalidate?: number | false;
+    /** revalidateTag()로 무효화할 캐시 태그 */
+    tags?: string[];
+}
+
+/**
+ * 응답 본문 파싱 방식
+ * - json: JSON 파싱 (기본)
+ * - text: 문자열 (CSV, 일반 텍스트 등)
+ * - blob / arrayBuffer: 바이너리 (파일 다운로드 등)
+ * - stream: 파싱하지 않은 ReadableStream (대용량 응답을 순차 처리할 때)
+ */
+export type ResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'stream';
+
+/**
+ * 쿼리 파라미터 타입
+ * 배열, Date, 중첩 객체, null을 포함할 수 있음 (직렬화 방식은 QueryStringOptions로 지정)
+ */
+export type QueryParams = { readonly [key: string]: QueryValue };
+
+/**
+ * 요청별 옵션
+ * get/post/put/patch/delete 메서드의 마지막 인자로 전달
+ *
+ * @template T - 응답 데이터 타입 (schema 지정 시 스키마에서 추론)
+ *
+ * @example
+ * const controller = new AbortController();
+ * const users = await apiClient.get<User[]>('/users', {
+ *   params: { page: 1, status: ['active', 'invited'], createdAfter: new Date('2026-01-01') },
+ *   signal: controller.signal,
+ *   timeoutMs: 5000,
+ * });
+ */
+export interface RequestOptions<T = unknown> {
+    /** 추가 헤더 */
+    headers?: HeadersInit;
+    /** 쿼리 파라미터 */
+    params?: QueryParams;
+    /** 쿼리 파라미터 직렬화 옵션 (클라이언트 기본 옵션을 부분적으로 덮어씀) */
+    querySerialization?: Partial<QueryStringOptions>;
+    /** 요청 취소 신호 (컴포넌트 언마운트 시 취소 등) */
+    signal?: AbortSignal;
+    /** 요청 타임아웃 (밀리초, 0이면 무제한, 기본: config.api.timeoutMs) */
+    timeoutMs?: number;
+    /** 응답 본문 파싱 방식 (기본: 'json') */
+    responseType?: ResponseType;
+    /** 재시도 정책 (클라이언트 정책을 부분적으로 덮어씀, false면 재시도 안 함) */
+    retry?: Partial<RetryPolicy> | false;
+    /** 재시도 직전에 호출되는 콜백 */
+    onRetry?: (info: RetryInfo) => void;
+    /** 응답 데이터 검증 스키마 */
+    schema?: ResponseSchema<T>;
+    /**
+     * 업로드/다운로드 진행률 콜백
+     * 본문이 있는 요청은 브라우저에서 XMLHttpRequest로 전송되어 업로드 진행률을 보고함
+     */
+    onProgress?: ProgressHandler;
+    /** fetch 캐시 모드 (서버에서 'no-store'면 Next.js 데이터 캐시 사용 안 함) */
+    cache?: RequestCache;
+    /** Next.js 데이터 캐시 옵션 (서버 컴포넌트/라우트 핸들러에서만 유효) */
+    next?: NextCacheOptions;
+    /** ETag/Last-Modified 조건부 요청 캐시 사용 여부 (클라이언트에 httpCache가 설정된 경우, 기본: true) */
+    httpCache?: boolean;
+    /**
+     * 멱등성 키 (기본: POST/PATCH에 자동 생성, false면 보내지 않음)
+     * 사용자가 같은 작업을 다시 시도할 때 같은 키를 전달하면 서버가 중복 처리를 막을 수 있음
+     */
+    idempotencyKey?: string | false;
+    /**
+     * 진행 중인 동일 변경 요청이 있으면 그 결과를 공유 (기본: true)
+     * 공유하는 호출은 먼저 보낸 호출의 signal, 헤더 등 옵션으로 전송되므로 따로 취소하려면 false
+     */
+    dedupe?: boolean;
+    /** trace ID (서버 렌더링 등 기존 트레이스에 이어서 기록할 때, 기본: 호출마다 새로 생성) */
+    traceId?: string;
+    /** 속도 제한 대기열 우선순위 (일괄 작업, 미리 가져오기는 'background', 기본: 'user') */
+    priority?: RequestPriority;
+}
+
+/**
+ * 토큰 발급/갱신 응답 타입
+ * 로그인 및 토큰 갱신 API의 응답 형태
+ */
+export interface AuthTokenResponse {
+    /** 새 액세스 토큰 */
+    accessToken: string;
+}
+
+/**
+ * CSRF 토큰 발급 응답 타입
+ * 쿠키 세션 모드에서 변경 요청 헤더에 붙일 토큰
+ */
+export interface CsrfTokenResponse {
+    /** CSRF 토큰 */
+    csrfToken: string;
 }
 
 /**
@@ -72,6 +201,31 @@ export interface PaginatedResponse<T> {
     totalPages: number;
 }
 
+/**
+ * 커서 기반 페이지네이션 요청 파라미터
+ * 무한 스크롤 등 항목이 자주 추가되는 목록에 사용
+ */
+export interface CursorPaginationParams {
+    /** 이전 응답의 nextCursor (첫 페이지는 생략) */
+    cursor?: string;
+    /** 페이지당 항목 수 */
+    limit?: number;
+    /** 정렬 기준 필드 */
+    sortBy?: string;
+    /** 정렬 방향 */
+    sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * 커서 기반 페이지네이션 응답 타입
+ */
+export interface CursorPaginatedResponse<T> {
+    /** 항목 목록 */
+    items: T[];
+    /** 다음 페이지 커서 (마지막 페이지면 null) */
+    nextCursor: string | null;
+}
+
 /**
  * 공통 엔티티 기본 타입
  * 모든 엔티티가 공통으로 가지는 필드
@@ -84,3 +238,54 @@ export interface BaseEntity {
     /** 수정 일시 */
     updatedAt: string;
 }
+
+// ============================================================
+// 도메인 타입
+// ============================================================
+
+/**
+ * 사용자 엔티티
+ */
+export interface User extends BaseEntity {
+    /** 이메일 */
+    email: string;
+    /** 이름 */
+    name: string;
+}
+
+/**
+ * 로그인 요청 본문
+ */
+export interface LoginRequest {
+    /** 이메일 */
+    email: string;
+    /** 비밀번호 */
+    password: string;
+}
+
+/**
+ * 회원가입 요청 본문
+ */
+export interface RegisterRequest {
+    /** 이메일 */
+    email: string;
+    /** 비밀번호 */
+    password: string;
+    /** 이름 */
+    name: string;
+}
+
+/**
+ * 사용자 생성 요청 본문
+ */
+export interface CreateUserRequest {
+    /** 이메일 */
+    email: string;
+    /** 이름 */
+    name: string;
+}
+
+/**
+ * 사용자 수정 요청 본문 (변경할 필드만 전달)
+ */
+export type UpdateUserRequest = Partial<CreateUserRequest>;
@@ -0,0 +1,84 @@
+/**
+ * @file 응답 스키마 검증
+ * @description 파싱된 응답 본문을 런타임 스키마로 검증하기 위한 타입과 헬퍼
+ *
+ * 스키마는 `safeParse()`만 구현하면 되므로 zod 스키마를 그대로 사용할 수 있고,
+ * 별도 라이브러리 없이 createSchema()로 직접 작성할 수도 있습니다.
+ *
+ * @example
+ * // zod 스키마 사용
+ * const user = await apiClient.get('/users/1', { schema: UserSchema });
+ *
+ * // 직접 작성한 스키마
+ * const IdSchema = createSchema<{ id: string }>((data) =>
+ *   typeof (data as { id?: unknown })?.id === 'string'
+ *     ? []
+ *     : [{ path: ['id'], message: '문자열이어야 합니다.' }]
+ * );
+ */
+
+/**
+ * 스키마 검증 실패 항목
+ */
+export interface SchemaIssue {
+    /** 실패한 값의 경로 (예: ['items', 0, 'email']) */
+    path: PropertyKey[];
+    /** 실패 사유 */
+    message: string;
+}
+
+/**
+ * safeParse 결과
+ */
+export type SchemaParseResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: { issues: SchemaIssue[] } };
+
+/**
+ * 응답 스키마
+ * zod의 safeParse 시그니처와 호환
+ */
+export interface ResponseSchema<T> {
+    /** 값을 검증하고 결과를 반환 (throw하지 않음) */
+    safeParse: (data: unknown) => SchemaParseResult<T>;
+}
+
+/**
+ * 스키마 검증 실패 처리 방식
+ * - throw: ValidationError를 throw (로컬/개발 서버 기본값)
+ * - report: validationError 이벤트로 보고하고 원본 데이터를 그대로 반환 (프로덕션 기본값)
+ * - off: 검증하지 않음
+ */
+export type ValidationMode = 'throw' | 'report' | 'off';
+
+/**
+ * 검증 함수로 스키마 생성
+ *
+ * @param validate - 실패 항목 목록을 반환하는 함수 (빈 배열이면 성공)
+ */
+export function createSchema<T>(validate: (data: unknown) => SchemaIssue[]): ResponseSchema<T> {
+    return {
+        safeParse: (data) => {
+            const issues = validate(data);
+            return issues.length === 0
+                ? { success: true, data: data as T }
+                : { success: false, error: { issues } };
+        },
+    };
+}
+
+/**
+ * 실패 경로를 읽기 쉬운 문자열로 변환
+ *
+ * @example
+ * formatIssuePath(['items', 0, 'email']); // 'items[0].email'
+ * formatIssuePath([]); // '(root)'
+ */
+export function formatIssuePath(path: PropertyKey[]): string {
+    if (path.length === 0) return '(root)';
+
+    return path.reduce<string>((result, segment) => {
+        if (typeof segment === 'number') return `${result}[${segment}]`;
+        return result ? `${result}.${String(segment)}` : String(segment);
+    }, '');
+}
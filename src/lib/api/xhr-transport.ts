@@ -0,0 +1,119 @@
+/**
+ * @file XMLHttpRequest 전송 계층
+ * @description 업로드 진행률이 필요한 요청을 위한 fetch 호환 XHR 전송 함수
+ *
+ * fetch는 업로드 진행률 이벤트를 제공하지 않으므로,
+ * onProgress가 지정된 본문 있는 요청은 이 전송 계층으로 보냅니다.
+ * XHR로 보낼 수 없는 본문(ReadableStream 등)은 fetch로 보냅니다. (isXhrBody 참고)
+ * 결과는 fetch와 동일하게 Response로 반환되어 이후 처리(인터셉터, 파싱)가 그대로 동작합니다.
+ */
+
+import { createProgress, type ProgressHandler } from './progress';
+
+/**
+ * 본문이 없어야 하는 응답 상태 코드
+ */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * XHR 응답 헤더 문자열을 Headers로 변환
+ */
+function parseResponseHeaders(raw: string): Headers {
+    const headers = new Headers();
+
+    raw.trim()
+        .split(/[\r\n]+/)
+        .forEach((line) => {
+            const index = line.indexOf(':');
+            if (index > 0) {
+                headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+            }
+        });
+
+    return headers;
+}
+
+/**
+ * XHR 전송 계층 사용 가능 여부 (브라우저 환경)
+ */
+export function isXhrAvailable(): boolean {
+    return typeof XMLHttpRequest !== 'undefined';
+}
+
+/**
+ * XHR로 보낼 수 있는 본문인지 확인 (문자열, Blob, FormData, ArrayBuffer/뷰, URLSearchParams)
+ * ReadableStream 본문은 XHR이 지원하지 않으므로 false
+ */
+export function isXhrBody(body: BodyInit | null | undefined): body is XMLHttpRequestBodyInit {
+    return (
+        typeof body === 'string' ||
+        (typeof Blob !== 'undefined' && body instanceof Blob) ||
+        (typeof FormData !== 'undefined' && body instanceof FormData) ||
+        (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) ||
+        body instanceof ArrayBuffer ||
+        ArrayBuffer.isView(body)
+    );
+}
+
+/**
+ * XMLHttpRequest로 요청을 보내고 fetch와 같은 형태로 응답 반환
+ * 네트워크 실패는 TypeError, 취소는 AbortError(DOMException)로 reject (fetch와 동일)
+ *
+ * @param url - 요청 URL
+ * @param init - fetch 요청 옵션 (method, headers, body, signal)
+ * @param onProgress - 업로드/다운로드 진행률 콜백
+ */
+export function xhrFetch(url: string, init: RequestInit, onProgress: ProgressHandler): Promise<Response> {
+    return new Promise((resolve, reject) => {
+        const { signal } = init;
+
+        if (signal?.aborted) {
+            reject(new DOMException('요청이 취소되었습니다.', 'AbortError'));
+            return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open(init.method ?? 'GET', url);
+        xhr.responseType = 'blob';
+        // 쿠키 세션: 다른 출처 요청에도 쿠키 전송 (같은 출처는 항상 전송)
+        xhr.withCredentials = init.credentials === 'include';
+
+        new Headers(init.headers).forEach((value, key) => {
+            xhr.setRequestHeader(key, value);
+        });
+
+        const abort = () => xhr.abort();
+        signal?.addEventListener('abort', abort, { once: true });
+        const cleanup = () => signal?.removeEventListener('abort', abort);
+
+        xhr.upload.onprogress = (event) => {
+            onProgress(createProgress('upload', event.loaded, event.lengthComputable ? event.total : undefined));
+        };
+        xhr.onprogress = (event) => {
+            onProgress(createProgress('download', event.loaded, event.lengthComputable ? event.total : undefined));
+        };
+
+        xhr.onload = () => {
+            cleanup();
+            const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : (xhr.response as Blob);
+
+            resolve(
+                new Response(body, {
+                    status: xhr.status,
+                    statusText: xhr.statusText,
+                    headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+                })
+            );
+        };
+        xhr.onerror = () => {
+            cleanup();
+            reject(new TypeError('네트워크 요청에 실패했습니다.'));
+        };
+        xhr.onabort = () => {
+            cleanup();
+            reject(new DOMException('요청이 취소되었습니다.', 'AbortError'));
+        };
+
+        xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+    });
+}
@@ -0,0 +1,42 @@
+/**
+ * @file IndexedDB 연결 모듈
+ * @description idb 기반 데이터베이스 연결 캐시 (useIndexedDB 훅과 오프라인 큐 등에서 공유)
+ *
+ * @example
+ * const db = await getDB('myApp', 'users', 1);
+ * await db.put('users', user, user.id);
+ */
+
+import { openDB, type IDBPDatabase } from 'idb';
+
+/**
+ * IndexedDB 데이터베이스 인스턴스 캐시
+ * 동일한 데이터베이스에 대한 중복 연결 방지
+ */
+const dbCache: Map<string, Promise<IDBPDatabase>> = new Map();
+
+/**
+ * IndexedDB 데이터베이스 열기
+ * 캐시된 연결이 있으면 재사용
+ *
+ * @param dbName - 데이터베이스 이름
+ * @param storeName - 객체 저장소 이름 (없으면 생성, 키는 저장 시 직접 지정)
+ * @param version - 데이터베이스 버전 (스키마 변경 시 증가)
+ */
+export async function getDB(dbName: string, storeName: string, version: number): Promise<IDBPDatabase> {
+    const cacheKey = `${dbName}-${version}`;
+
+    if (!dbCache.has(cacheKey)) {
+        const dbPromise = openDB(dbName, version, {
+            upgrade(db) {
+                // 객체 저장소가 없으면 생성
+                if (!db.objectStoreNames.contains(storeName)) {
+                    db.createObjectStore(storeName);
+                }
+            },
+        });
+        dbCache.set(cacheKey, dbPromise);
+    }
+
+    return dbCache.get(cacheKey)!;
+}
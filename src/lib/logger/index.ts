@@ -0,0 +1,33 @@
+/**
+ * @file 로거 모듈 배럴 파일
+ * @description 전역 로거 인스턴스와 transport 등 로깅 관련 모듈을 한 곳에서 export
+ *
+ * 최소 출력 레벨은 config.logLevel을 따르며, config.debug가 true이면 debug 레벨까지 출력합니다.
+ *
+ * @example
+ * import { logger } from '@/lib/logger';
+ *
+ * const log = logger.child('checkout');
+ * log.info('결제 요청', { orderId, amount });
+ */
+
+import { config } from '@/config';
+import { Logger } from './logger';
+import { ConsoleTransport } from './transports';
+
+/**
+ * 전역 로거 인스턴스
+ * 모듈별로 child()로 네임스페이스를 나누어 사용
+ */
+export const logger = new Logger({
+    level: config.debug ? 'debug' : config.logLevel,
+    transports: [new ConsoleTransport()],
+});
+
+export { Logger, LOG_LEVEL_PRIORITY } from './logger';
+export type { LogContext, LogRecord, LogTransport, LoggerOptions } from './logger';
+export { ConsoleTransport, MemoryTransport, BeaconTransport } from './transports';
+export type { BeaconTransportOptions } from './transports';
+export { redact, REDACTED, DEFAULT_REDACT_KEYS } from './redact';
+
+export default logger;
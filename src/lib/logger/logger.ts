@@ -0,0 +1,205 @@
+/**
+ * @file 로거
+ * @description 레벨 필터링, 네임스페이스 자식 로거, 구조화된 컨텍스트, 민감 정보 마스킹을 지원하는 로거
+ *
+ * @example
+ * const log = logger.child('api', { service: 'billing' });
+ *
+ * log.debug('요청 전송', { method: 'GET', url });
+ * log.error('응답 스키마 검증 실패', { paths: error.paths, error });
+ *
+ * // 출력 대상 추가
+ * logger.addTransport(new MemoryTransport(200));
+ */
+
+import type { LogLevel } from '@/config';
+import { DEFAULT_REDACT_KEYS, redact } from './redact';
+
+/**
+ * 레벨 우선순위 (높을수록 중요)
+ */
+export const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+};
+
+/**
+ * 로그 컨텍스트 (구조화된 필드)
+ */
+export type LogContext = Record<string, unknown>;
+
+/**
+ * 로그 레코드 (transport에 전달되는 단위)
+ */
+export interface LogRecord {
+    /** 로그 레벨 */
+    level: LogLevel;
+    /** 네임스페이스 (예: 'api', 'api:stream') */
+    namespace: string;
+    /** 메시지 */
+    message: string;
+    /** 컨텍스트 필드 (마스킹 적용됨) */
+    context: LogContext;
+    /** 기록 시각 (ISO 8601) */
+    timestamp: string;
+}
+
+/**
+ * 로그 출력 대상
+ */
+export interface LogTransport {
+    /** 레코드 기록 */
+    write(record: LogRecord): void;
+    /** 버퍼에 남은 레코드 전송 (배치 전송 transport) */
+    flush?(): void;
+}
+
+/**
+ * Logger 생성 옵션
+ */
+export interface LoggerOptions {
+    /** 최소 출력 레벨 (기본: 'info') */
+    level?: LogLevel;
+    /** 네임스페이스 (기본: 'app') */
+    namespace?: string;
+    /** 모든 레코드에 포함할 기본 컨텍스트 */
+    context?: LogContext;
+    /** 출력 대상 (기본: 없음) */
+    transports?: LogTransport[];
+    /** 마스킹할 키 패턴 (기본: DEFAULT_REDACT_KEYS) */
+    redactKeys?: readonly RegExp[];
+}
+
+/**
+ * 부모와 자식 로거가 공유하는 설정
+ * 루트에서 레벨이나 transport를 바꾸면 모든 자식에 반영됨
+ */
+interface LoggerCore {
+    level: LogLevel;
+    transports: LogTransport[];
+    redactKeys: readonly RegExp[];
+}
+
+/**
+ * 로거
+ */
+export class Logger {
+    /** 공유 설정 */
+    private core: LoggerCore;
+
+    /** 네임스페이스 */
+    readonly namespace: string;
+
+    /** 기본 컨텍스트 */
+    private context: LogContext;
+
+    constructor(options: LoggerOptions = {}, core?: LoggerCore) {
+        this.core = core ?? {
+            level: options.level ?? 'info',
+            transports: options.transports ?? [],
+            redactKeys: options.redactKeys ?? DEFAULT_REDACT_KEYS,
+        };
+        this.namespace = options.namespace ?? 'app';
+        this.context = options.context ?? {};
+    }
+
+    /**
+     * 자식 로거 생성
+     * 네임스페이스는 'parent:child' 형태가 되고, 컨텍스트는 부모 컨텍스트와 합쳐짐
+     *
+     * @param namespace - 자식 네임스페이스
+     * @param context - 추가 기본 컨텍스트
+     */
+    child(namespace: string, context: LogContext = {}): Logger {
+        return new Logger(
+            {
+                namespace: this.namespace === 'app' ? namespace : `${this.namespace}:${namespace}`,
+                context: { ...this.context, ...context },
+            },
+            this.core
+        );
+    }
+
+    /**
+     * 최소 출력 레벨 변경 (자식 로거 포함)
+     */
+    setLevel(level: LogLevel): void {
+        this.core.level = level;
+    }
+
+    /**
+     * 현재 최소 출력 레벨
+     */
+    getLevel(): LogLevel {
+        return this.core.level;
+    }
+
+    /**
+     * 해당 레벨이 출력되는지 확인 (비용이 큰 컨텍스트 계산 전에 사용)
+     */
+    isLevelEnabled(level: LogLevel): boolean {
+        return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[this.core.level];
+    }
+
+    /**
+     * 출력 대상 추가
+     * @returns 제거 함수
+     */
+    addTransport(transport: LogTransport): () => void {
+        this.core.transports.push(transport);
+        return () => {
+            this.core.transports = this.core.transports.filter((item) => item !== transport);
+        };
+    }
+
+    /**
+     * 버퍼에 남은 레코드 전송
+     */
+    flush(): void {
+        this.core.transports.forEach((transport) => transport.flush?.());
+    }
+
+    debug(message: string, context?: LogContext): void {
+        this.log('debug', message, context);
+    }
+
+    info(message: string, context?: LogContext): void {
+        this.log('info', message, context);
+    }
+
+    warn(message: string, context?: LogContext): void {
+        this.log('warn', message, context);
+    }
+
+    error(message: string, context?: LogContext): void {
+        this.log('error', message, context);
+    }
+
+    /**
+     * 레코드 생성 및 전달
+     * transport에서 발생한 에러는 다른 transport 실행에 영향을 주지 않음
+     */
+    log(level: LogLevel, message: string, context: LogContext = {}): void {
+        if (!this.isLevelEnabled(level)) {
+            return;
+        }
+
+        const record: LogRecord = {
+            level,
+            namespace: this.namespace,
+            message,
+            context: redact({ ...this.context, ...context }, this.core.redactKeys) as LogContext,
+            timestamp: new Date().toISOString(),
+        };
+
+        this.core.transports.forEach((transport) => {
+            try {
+                transport.write(record);
+            } catch {
+                // 로깅 실패로 앱 동작이 멈추지 않도록 무시
+            }
+        });
+    }
+}
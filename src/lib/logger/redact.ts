@@ -0,0 +1,115 @@
+/**
+ * @file 로그 민감 정보 마스킹
+ * @description 로그 컨텍스트에서 토큰, 비밀번호, 인증 헤더 등 민감한 값을 가림
+ *
+ * @example
+ * redact({ headers: { Authorization: 'Bearer abc' }, user: { email: 'a@b.c', password: '1234' } });
+ * // { headers: { Authorization: '[REDACTED]' }, user: { email: 'a@b.c', password: '[REDACTED]' } }
+ */
+
+/**
+ * 마스킹 후 표시할 값
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * 기본 민감 키 패턴 (대소문자 무시, 키 이름의 일부만 일치해도 마스킹)
+ */
+export const DEFAULT_REDACT_KEYS: readonly RegExp[] = [
+    /authorization/i,
+    /cookie/i,
+    /token/i,
+    /password/i,
+    /secret/i,
+    /api[-_]?key/i,
+    /csrf/i,
+];
+
+/**
+ * 문자열 안의 토큰 패턴 (Bearer 토큰, JWT)
+ */
+const TOKEN_PATTERNS: readonly RegExp[] = [
+    /(Bearer\s+)[A-Za-z0-9\-._~+/]+=*/gi,
+    /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+];
+
+/**
+ * 문자열 안의 토큰 마스킹
+ */
+function redactString(value: string): string {
+    return TOKEN_PATTERNS.reduce(
+        (result, pattern) => result.replace(pattern, (match, prefix?: string) =>
+            typeof prefix === 'string' && /^Bearer/i.test(prefix) ? `${prefix}${REDACTED}` : REDACTED
+        ),
+        value
+    );
+}
+
+/**
+ * 값의 민감 정보를 재귀적으로 마스킹한 사본 반환
+ * Headers, Error, 순환 참조를 처리하며 원본은 변경하지 않음
+ *
+ * @param value - 마스킹할 값
+ * @param keys - 민감 키 패턴 (기본: DEFAULT_REDACT_KEYS)
+ */
+export function redact(value: unknown, keys: readonly RegExp[] = DEFAULT_REDACT_KEYS): unknown {
+    // 현재 경로의 상위 객체 (같은 객체를 여러 곳에서 참조하는 것은 순환이 아님)
+    const ancestors = new WeakSet<object>();
+
+    const visit = (current: unknown): unknown => {
+        if (typeof current === 'string') {
+            return redactString(current);
+        }
+
+        if (current === null || typeof current !== 'object') {
+            return current;
+        }
+
+        if (ancestors.has(current)) {
+            return '[Circular]';
+        }
+
+        ancestors.add(current);
+        try {
+            return visitObject(current);
+        } finally {
+            ancestors.delete(current);
+        }
+    };
+
+    const visitObject = (current: object): unknown => {
+        if (typeof Headers !== 'undefined' && current instanceof Headers) {
+            const record: Record<string, string> = {};
+            current.forEach((headerValue, name) => {
+                record[name] = headerValue;
+            });
+            return visit(record);
+        }
+
+        if (current instanceof Error) {
+            return {
+                name: current.name,
+                message: redactString(current.message),
+                stack: current.stack && redactString(current.stack),
+                ...(visit({ ...current }) as object),
+            };
+        }
+
+        if (current instanceof Date) {
+            return current.toISOString();
+        }
+
+        if (Array.isArray(current)) {
+            return current.map(visit);
+        }
+
+        return Object.fromEntries(
+            Object.entries(current).map(([key, child]) => [
+                key,
+                keys.some((pattern) => pattern.test(key)) ? REDACTED : visit(child),
+            ])
+        );
+    };
+
+    return visit(value);
+}
@@ -0,0 +1,158 @@
+/**
+ * @file 로그 출력 대상
+ * @description 콘솔, 메모리 링 버퍼, 엔드포인트 배치 전송(sendBeacon) transport
+ *
+ * @example
+ * // 최근 로그 200개를 보관 (버그 리포트 첨부용)
+ * const memory = new MemoryTransport(200);
+ * logger.addTransport(memory);
+ * attachToReport(memory.getRecords());
+ *
+ * // warn 이상을 모아서 수집 서버로 전송 (페이지를 떠날 때도 전송)
+ * logger.addTransport(new BeaconTransport({ url: '/api/logs', level: 'warn' }));
+ */
+
+import type { LogLevel } from '@/config';
+import { LOG_LEVEL_PRIORITY, type LogRecord, type LogTransport } from './logger';
+
+/**
+ * 레벨별 콘솔 메서드
+ */
+const CONSOLE_METHODS = {
+    debug: 'debug',
+    info: 'info',
+    warn: 'warn',
+    error: 'error',
+} as const;
+
+/**
+ * 콘솔 출력
+ * `[namespace] message` 형태로 출력하고 컨텍스트가 있으면 함께 출력
+ */
+export class ConsoleTransport implements LogTransport {
+    write(record: LogRecord): void {
+        const method = CONSOLE_METHODS[record.level];
+        const prefix = `[${record.namespace}] ${record.message}`;
+
+        if (Object.keys(record.context).length > 0) {
+            console[method](prefix, record.context);
+        } else {
+            console[method](prefix);
+        }
+    }
+}
+
+/**
+ * 메모리 링 버퍼
+ * 최근 레코드를 지정한 개수만큼 보관 (초과 시 오래된 레코드부터 삭제)
+ */
+export class MemoryTransport implements LogTransport {
+    /** 보관 중인 레코드 */
+    private records: LogRecord[] = [];
+
+    /**
+     * @param capacity - 최대 보관 개수 (기본: 100)
+     */
+    constructor(private capacity: number = 100) {}
+
+    write(record: LogRecord): void {
+        this.records.push(record);
+
+        if (this.records.length > this.capacity) {
+            this.records.splice(0, this.records.length - this.capacity);
+        }
+    }
+
+    /**
+     * 보관 중인 레코드 (오래된 순)
+     */
+    getRecords(): readonly LogRecord[] {
+        return [...this.records];
+    }
+
+    /**
+     * 버퍼 비우기
+     */
+    clear(): void {
+        this.records = [];
+    }
+}
+
+/**
+ * BeaconTransport 옵션
+ */
+export interface BeaconTransportOptions {
+    /** 수집 엔드포인트 URL */
+    url: string;
+    /** 전송할 최소 레벨 (기본: 'warn') */
+    level?: LogLevel;
+    /** 이 개수가 모이면 즉시 전송 (기본: 20) */
+    batchSize?: number;
+    /** 모인 레코드를 전송하는 주기 (밀리초, 기본: 5000) */
+    flushIntervalMs?: number;
+}
+
+/**
+ * 엔드포인트 배치 전송
+ * `{ records: LogRecord[] }` JSON을 navigator.sendBeacon으로 전송 (없으면 keepalive fetch)
+ * 페이지가 숨겨지거나 닫힐 때 남은 레코드를 전송
+ */
+export class BeaconTransport implements LogTransport {
+    private options: Required<BeaconTransportOptions>;
+
+    /** 전송 대기 중인 레코드 */
+    private buffer: LogRecord[] = [];
+
+    /** 전송 예약 타이머 */
+    private timer?: ReturnType<typeof setTimeout>;
+
+    constructor(options: BeaconTransportOptions) {
+        this.options = { level: 'warn', batchSize: 20, flushIntervalMs: 5000, ...options };
+
+        if (typeof window !== 'undefined') {
+            window.addEventListener('pagehide', () => this.flush());
+            document.addEventListener('visibilitychange', () => {
+                if (document.visibilityState === 'hidden') this.flush();
+            });
+        }
+    }
+
+    write(record: LogRecord): void {
+        if (LOG_LEVEL_PRIORITY[record.level] < LOG_LEVEL_PRIORITY[this.options.level]) {
+            return;
+        }
+
+        this.buffer.push(record);
+
+        if (this.buffer.length >= this.options.batchSize) {
+            this.flush();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), this.options.flushIntervalMs);
+        }
+    }
+
+    flush(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+
+        if (this.buffer.length === 0) {
+            return;
+        }
+
+        const payload = JSON.stringify({ records: this.buffer });
+        this.buffer = [];
+
+        // 전송 실패는 로깅하지 않음 (로그 전송 실패 로그의 무한 반복 방지)
+        if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+            navigator.sendBeacon(this.options.url, new Blob([payload], { type: 'application/json' }));
+            return;
+        }
+
+        fetch(this.options.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: payload,
+            keepalive: true,
+        }).catch(() => undefined);
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * @file 엔드포인트 쿼리 헬퍼
+ * @description ENDPOINTS 정의로부터 쿼리 키와 쿼리/뮤테이션 함수를 생성
+ *
+ * 쿼리 키는 실제 요청 경로의 세그먼트로 구성되므로
+ * 상위 경로로 관련 캐시를 한 번에 무효화할 수 있습니다.
+ * - ENDPOINTS.USERS.LIST → ['users'] 또는 ['users', { page: 1 }]
+ * - ENDPOINTS.USERS.DETAIL({ id: '1' }) → ['users', '1']
+ *
+ * @example
+ * const { data } = useApiQuery(endpointQuery(ENDPOINTS.USERS.DETAIL, { params: { id } }));
+ *
+ * const { mutate } = useApiMutation(endpointMutation(ENDPOINTS.USERS.UPDATE), {
+ *   invalidates: [['users']],
+ * });
+ */
+
+import {
+    buildPath,
+    callEndpoint,
+    type CallEndpointArgs,
+    type CallEndpointOptions,
+    type EndpointDefinition,
+    type EndpointResponse,
+} from '@/lib/api';
+import type { QueryFunction, QueryKey } from './query-client';
+
+/**
+ * 엔드포인트 쿼리 옵션 (useApiQuery에 그대로 전달 가능)
+ */
+export interface EndpointQueryOptions<T> {
+    queryKey: QueryKey;
+    queryFn: QueryFunction<T>;
+}
+
+/**
+ * 엔드포인트 쿼리 키 생성
+ *
+ * @param endpoint - ENDPOINTS에 정의된 엔드포인트
+ * @param options - 경로 파라미터와 쿼리 파라미터
+ * @returns 경로 세그먼트 (+ 쿼리 파라미터가 있으면 마지막 요소로 추가)
+ */
+export function endpointQueryKey(
+    endpoint: EndpointDefinition,
+    options: { params?: Record<string, string | number>; query?: object } = {}
+): QueryKey {
+    const segments = buildPath(endpoint.path, options.params).split('/').filter(Boolean);
+    const hasQuery = options.query !== undefined && Object.keys(options.query).length > 0;
+
+    return hasQuery ? [...segments, options.query] : segments;
+}
+
+/**
+ * 엔드포인트 쿼리 옵션 생성
+ * 요청 취소 signal은 쿼리 클라이언트가 관리함
+ *
+ * @param endpoint - ENDPOINTS에 정의된 엔드포인트
+ * @param options - callEndpoint 옵션
+ */
+export function endpointQuery<E extends EndpointDefinition>(
+    endpoint: E,
+    ...[options]: CallEndpointArgs<E>
+): EndpointQueryOptions<EndpointResponse<E>> {
+    return {
+        queryKey: endpointQueryKey(endpoint, options as Parameters<typeof endpointQueryKey>[1]),
+        queryFn: ({ signal }) => callEndpoint(endpoint, ...([{ ...options, signal }] as CallEndpointArgs<E>)),
+    };
+}
+
+/**
+ * 엔드포인트 뮤테이션 함수 생성
+ * 뮤테이션 변수는 callEndpoint 옵션 (params, body, query 등)
+ *
+ * @param endpoint - ENDPOINTS에 정의된 엔드포인트
+ */
+export function endpointMutation<E extends EndpointDefinition>(
+    endpoint: E
+): (variables: CallEndpointOptions<E>) => Promise<EndpointResponse<E>> {
+    return (variables) => callEndpoint(endpoint, ...([variables] as CallEndpointArgs<E>));
+}
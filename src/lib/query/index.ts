@@ -0,0 +1,19 @@
+/**
+ * @file 쿼리 모듈 배럴 파일
+ * @description 쿼리 캐시 관련 모듈을 한 곳에서 export
+ */
+
+export { QueryClient, queryClient, hashQueryKey, matchesQueryKey, INITIAL_QUERY_STATE } from './query-client';
+export type { QueryKey, QueryStatus, QueryState, QueryFunction, FetchQueryOptions } from './query-client';
+export { endpointQuery, endpointQueryKey, endpointMutation } from './endpoint-query';
+export type { EndpointQueryOptions } from './endpoint-query';
+export { applyOptimisticUpdate } from './optimistic';
+export type { OptimisticUpdate, OptimisticSnapshot } from './optimistic';
+export { infiniteEndpointQuery, getNextPageQuery, isCursorPage } from './pagination';
+export type {
+    PageResponse,
+    InfiniteData,
+    InfiniteQueryFunction,
+    InfiniteQueryOptions,
+    GetNextPageParam,
+} from './pagination';
@@ -0,0 +1,92 @@
+/**
+ * @file 낙관적 업데이트
+ * @description 서버 응답 전에 쿼리 캐시를 먼저 변경하고, 실패하면 되돌리는 헬퍼
+ *
+ * useApiMutation의 optimistic 옵션이 내부적으로 사용하며, 컴포넌트 밖에서 직접 사용할 수도 있습니다.
+ *
+ * @example
+ * const snapshot = applyOptimisticUpdate<User[]>(queryClient, ['users'], (users) =>
+ *   users?.map((user) => (user.id === id ? { ...user, name } : user))
+ * );
+ *
+ * try {
+ *   await apiClient.patch(`/users/${id}`, { name });
+ * } catch (error) {
+ *   snapshot.rollback();
+ * }
+ *
+ * 같은 캐시에 낙관적 업데이트가 겹친 경우, 먼저 실패한 쪽이 나중 변경을 지우지 않도록
+ * 되돌릴 때 캐시가 그 사이 바뀌었으면 스냅샷 대신 무효화(재요청)로 서버 상태를 반영합니다.
+ */
+
+import type { QueryClient, QueryKey } from './query-client';
+
+/**
+ * 뮤테이션에 연결하는 낙관적 업데이트 정의
+ *
+ * @template TCache - 캐시 데이터 타입
+ * @template TData - 뮤테이션 응답 타입
+ * @template TVariables - 뮤테이션 변수 타입
+ */
+export interface OptimisticUpdate<TCache = unknown, TData = unknown, TVariables = unknown> {
+    /** 변경할 쿼리 키 프리픽스 (일치하는 모든 캐시에 적용) */
+    queryKey: QueryKey | ((variables: TVariables) => QueryKey);
+    /** 요청 전에 적용할 변경 (undefined를 반환하면 변경하지 않음) */
+    update(previous: TCache, variables: TVariables, key: QueryKey): TCache | undefined;
+    /** 성공 응답으로 캐시 보정 (생성된 ID, 서버 계산 필드 등 반영) */
+    reconcile?(current: TCache, data: TData, variables: TVariables, key: QueryKey): TCache | undefined;
+}
+
+/**
+ * 낙관적 업데이트 스냅샷
+ */
+export interface OptimisticSnapshot {
+    /** 변경된 캐시 키 */
+    keys: QueryKey[];
+    /**
+     * 변경 전 데이터로 되돌리기
+     * 적용 이후 다른 변경(겹친 낙관적 업데이트, 재요청 결과 등)이 있었던 캐시는 덮어쓰지 않고 무효화하여 서버 상태로 갱신
+     */
+    rollback: () => void;
+}
+
+/**
+ * 프리픽스에 일치하는 캐시 데이터를 변경하고 스냅샷 반환
+ * 데이터가 아직 없는 쿼리는 변경하지 않음
+ *
+ * @param client - 쿼리 클라이언트
+ * @param prefix - 쿼리 키 프리픽스
+ * @param updater - 캐시 변경 함수 (undefined를 반환하면 해당 캐시는 건너뜀)
+ * @returns 되돌리기 스냅샷
+ */
+export function applyOptimisticUpdate<T>(
+    client: QueryClient,
+    prefix: QueryKey,
+    updater: (previous: T, key: QueryKey) => T | undefined
+): OptimisticSnapshot {
+    const previous: { key: QueryKey; data: T; applied: T }[] = [];
+
+    client.findQueries(prefix).forEach(({ key, state }) => {
+        if (state.data === undefined) return;
+
+        const next = updater(state.data as T, key);
+        if (next === undefined) return;
+
+        previous.push({ key, data: state.data as T, applied: next });
+        client.setQueryData<T>(key, next);
+    });
+
+    return {
+        keys: previous.map(({ key }) => key),
+        rollback: () => {
+            previous.forEach(({ key, data, applied }) => {
+                // 이 업데이트가 마지막 변경일 때만 스냅샷 복원 (다른 뮤테이션의 값을 지우지 않도록)
+                if (client.getQueryData<T>(key) === applied) {
+                    client.setQueryData<T>(key, data);
+                } else {
+                    void client.invalidateQueries(key);
+                }
+            });
+        },
+    };
+}
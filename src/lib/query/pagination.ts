@@ -0,0 +1,117 @@
+/**
+ * @file 페이지네이션 쿼리 헬퍼
+ * @description 오프셋(page) / 커서(cursor) 기반 목록 응답을 위한 무한 쿼리 옵션 생성
+ *
+ * @example
+ * // 오프셋 기반: { page: 2 }, { page: 3 } ... 순서로 요청
+ * const users = useInfiniteQuery(
+ *   infiniteEndpointQuery(ENDPOINTS.USERS.LIST, { query: { limit: 20, sortBy: 'name' } })
+ * );
+ *
+ * // 커서 기반: 응답의 nextCursor를 다음 요청의 cursor로 전달
+ * const feed = useInfiniteQuery(infiniteEndpointQuery(ENDPOINTS.FEED.LIST, { query: { limit: 20 } }));
+ */
+
+import {
+    callEndpoint,
+    type CallEndpointArgs,
+    type CursorPaginatedResponse,
+    type EndpointDefinition,
+    type EndpointQuery,
+    type EndpointResponse,
+    type PaginatedResponse,
+} from '@/lib/api';
+import { endpointQueryKey } from './endpoint-query';
+import type { QueryKey } from './query-client';
+
+/**
+ * 페이지 목록 응답 (오프셋 또는 커서 기반)
+ */
+export type PageResponse<T = unknown> = PaginatedResponse<T> | CursorPaginatedResponse<T>;
+
+/**
+ * 무한 쿼리 캐시 데이터
+ */
+export interface InfiniteData<TPage, TPageParam> {
+    /** 불러온 페이지 목록 */
+    pages: TPage[];
+    /** 각 페이지를 요청할 때 사용한 파라미터 */
+    pageParams: TPageParam[];
+}
+
+/**
+ * 무한 쿼리 페이지 함수 타입
+ */
+export type InfiniteQueryFunction<TPage, TPageParam> = (context: {
+    pageParam: TPageParam;
+    signal: AbortSignal;
+}) => Promise<TPage>;
+
+/**
+ * 다음 페이지 파라미터 계산 함수 (더 이상 없으면 undefined 또는 null)
+ */
+export type GetNextPageParam<TPage, TPageParam> = (
+    lastPage: TPage,
+    allPages: TPage[]
+) => TPageParam | undefined | null;
+
+/**
+ * 무한 쿼리 옵션 (useInfiniteQuery에 그대로 전달 가능)
+ */
+export interface InfiniteQueryOptions<TPage, TPageParam> {
+    queryKey: QueryKey;
+    queryFn: InfiniteQueryFunction<TPage, TPageParam>;
+    /** 첫 페이지 파라미터 */
+    initialPageParam: TPageParam;
+    getNextPageParam: GetNextPageParam<TPage, TPageParam>;
+}
+
+/**
+ * 커서 기반 응답인지 확인
+ */
+export function isCursorPage<T>(page: PageResponse<T>): page is CursorPaginatedResponse<T> {
+    return 'nextCursor' in page;
+}
+
+/**
+ * 다음 페이지 쿼리 파라미터 계산
+ * 커서 기반이면 `{ cursor }`, 오프셋 기반이면 `{ page }`를 반환
+ */
+export function getNextPageQuery(lastPage: PageResponse): { cursor: string } | { page: number } | undefined {
+    if (isCursorPage(lastPage)) {
+        return lastPage.nextCursor ? { cursor: lastPage.nextCursor } : undefined;
+    }
+
+    return lastPage.page < lastPage.totalPages ? { page: lastPage.page + 1 } : undefined;
+}
+
+/**
+ * 페이지 목록 엔드포인트 (응답이 PaginatedResponse 또는 CursorPaginatedResponse)
+ */
+type PageEndpoint = EndpointDefinition & { __types?: { response?: PageResponse } };
+
+/**
+ * 엔드포인트 무한 쿼리 옵션 생성
+ * 페이지 파라미터는 query에 병합되며, 쿼리 키는 일반 목록 쿼리와 구분됨
+ * (['users', { limit: 20 }, 'infinite'])
+ *
+ * @param endpoint - 목록 응답을 반환하는 엔드포인트
+ * @param options - callEndpoint 옵션 (query는 첫 페이지 기준)
+ */
+export function infiniteEndpointQuery<E extends PageEndpoint>(
+    endpoint: E,
+    ...[options]: CallEndpointArgs<E>
+): InfiniteQueryOptions<EndpointResponse<E>, Partial<EndpointQuery<E>>> {
+    const { query, ...rest } = (options ?? {}) as { query?: object; params?: Record<string, string | number> };
+
+    return {
+        queryKey: [...endpointQueryKey(endpoint, { params: rest.params, query }), 'infinite'],
+        queryFn: ({ pageParam, signal }) => {
+            const pageOptions: object = { ...rest, query: { ...query, ...pageParam }, signal };
+            return callEndpoint(endpoint, ...([pageOptions] as CallEndpointArgs<E>));
+        },
+        initialPageParam: {},
+        getNextPageParam: (lastPage) =>
+            getNextPageQuery(lastPage as PageResponse) as Partial<EndpointQuery<E>> | undefined,
+    };
+}
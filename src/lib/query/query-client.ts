@@ -0,0 +1,412 @@
+/**
+ * @file 쿼리 클라이언트
+ * @description 키 기반 쿼리 캐시 (stale-while-revalidate, 요청 중복 제거, 프리픽스 무효화)
+ *
+ * 이 모듈은 다음과 같은 기능을 제공합니다:
+ * - 쿼리 키별 데이터/에러/상태 캐시
+ * - 동일 키 동시 요청 중복 제거 (in-flight deduplication)
+ * - staleTime 기반 재검증 판단
+ * - 키 프리픽스 단위 캐시 무효화 및 구독 중인 쿼리 자동 재요청
+ * - 구독자가 없는 캐시의 지연 정리 (gcTime)
+ *
+ * React에서는 useApiQuery/useApiMutation 훅을 통해 사용합니다.
+ *
+ * @example
+ * // 사용자 관련 캐시 전체 무효화 (목록 + 상세)
+ * queryClient.invalidateQueries(['users']);
+ *
+ * // 캐시 직접 수정
+ * queryClient.setQueryData<User>(['users', id], (prev) => ({ ...prev!, name }));
+ */
+
+/**
+ * 쿼리 키
+ * 배열의 앞부분이 같으면 같은 그룹으로 무효화 가능 (예: ['users'] ⊃ ['users', '1'])
+ */
+export type QueryKey = readonly unknown[];
+
+/**
+ * 쿼리 상태
+ * - pending: 아직 데이터가 없음
+ * - success: 데이터 있음
+ * - error: 마지막 요청이 실패함 (이전 데이터는 유지)
+ */
+export type QueryStatus = 'pending' | 'success' | 'error';
+
+/**
+ * 쿼리 캐시 상태
+ */
+export interface QueryState<T = unknown> {
+    /** 캐시된 데이터 */
+    data: T | undefined;
+    /** 마지막 요청 에러 */
+    error: unknown;
+    /** 쿼리 상태 */
+    status: QueryStatus;
+    /** 요청 진행 중 여부 (백그라운드 재검증 포함) */
+    isFetching: boolean;
+    /** 마지막으로 데이터를 받은 시각 (없으면 0) */
+    updatedAt: number;
+    /** 무효화되어 다음 접근 시 재요청이 필요한지 여부 */
+    isInvalidated: boolean;
+}
+
+/**
+ * 쿼리 함수 타입
+ * 전달된 signal은 캐시가 정리되거나 취소될 때 abort됨
+ */
+export type QueryFunction<T> = (context: { signal: AbortSignal }) => Promise<T>;
+
+/**
+ * fetchQuery 옵션
+ */
+export interface FetchQueryOptions {
+    /** 데이터가 신선하다고 간주되는 시간 (밀리초, 기본: 0) */
+    staleTime?: number;
+    /** 신선도와 관계없이 재요청 */
+    force?: boolean;
+    /**
+     * 이번 요청에만 사용하는 함수인지 여부
+     * true이면 무효화 시 재요청 함수로 저장하지 않음 (예: 무한 쿼리의 다음 페이지 요청)
+     */
+    transient?: boolean;
+}
+
+/**
+ * 캐시 항목
+ */
+interface QueryEntry {
+    key: QueryKey;
+    state: QueryState;
+    /** 마지막으로 사용된 쿼리 함수 (무효화 후 재요청에 사용) */
+    fetcher?: QueryFunction<unknown>;
+    /** 진행 중인 요청 */
+    promise?: Promise<unknown>;
+    /** 진행 중인 요청 취소용 컨트롤러 */
+    controller?: AbortController;
+    /** 상태 변경 구독자 */
+    listeners: Set<() => void>;
+    /** 정리 예약 타이머 */
+    gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 구독자가 없는 캐시를 유지하는 기본 시간 (5분)
+ */
+const DEFAULT_GC_TIME = 5 * 60 * 1000;
+
+/**
+ * 초기 쿼리 상태
+ */
+export const INITIAL_QUERY_STATE: QueryState = {
+    data: undefined,
+    error: null,
+    status: 'pending',
+    isFetching: false,
+    updatedAt: 0,
+    isInvalidated: false,
+};
+
+/**
+ * 값을 안정적인 문자열로 변환 (객체 키 순서 무관, undefined 제외)
+ */
+function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_, v: unknown) => {
+        if (v && typeof v === 'object' && !Array.isArray(v)) {
+            return Object.keys(v)
+                .sort()
+                .reduce<Record<string, unknown>>((result, key) => {
+                    result[key] = (v as Record<string, unknown>)[key];
+                    return result;
+                }, {});
+        }
+        return v;
+    });
+}
+
+/**
+ * 쿼리 키 해시
+ */
+export function hashQueryKey(key: QueryKey): string {
+    return stableStringify(key);
+}
+
+/**
+ * 쿼리 키가 프리픽스로 시작하는지 확인
+ */
+export function matchesQueryKey(key: QueryKey, prefix: QueryKey): boolean {
+    return prefix.every((part, index) => stableStringify(part) === stableStringify(key[index]));
+}
+
+/**
+ * 쿼리 클라이언트
+ */
+export class QueryClient {
+    /** 쿼리 캐시 (키 해시 → 항목) */
+    private cache = new Map<string, QueryEntry>();
+
+    /** 구독자가 없는 캐시 유지 시간 */
+    private gcTime: number;
+
+    constructor(options: { gcTime?: number } = {}) {
+        this.gcTime = options.gcTime ?? DEFAULT_GC_TIME;
+    }
+
+    /**
+     * 캐시 항목 조회 (없으면 생성)
+     */
+    private ensure(key: QueryKey): QueryEntry {
+        const hash = hashQueryKey(key);
+        let entry = this.cache.get(hash);
+
+        if (!entry) {
+            entry = { key, state: INITIAL_QUERY_STATE, listeners: new Set() };
+            this.cache.set(hash, entry);
+            this.scheduleGc(hash, entry);
+        }
+
+        return entry;
+    }
+
+    /**
+     * 상태 변경 및 구독자 알림
+     * useSyncExternalStore가 변경을 감지할 수 있도록 항상 새 객체로 교체
+     */
+    private setState(entry: QueryEntry, patch: Partial<QueryState>): void {
+        entry.state = { ...entry.state, ...patch };
+        entry.listeners.forEach((listener) => listener());
+    }
+
+    /**
+     * 구독자가 없으면 gcTime 이후 캐시 정리
+     */
+    private scheduleGc(hash: string, entry: QueryEntry): void {
+        clearTimeout(entry.gcTimer);
+
+        if (entry.listeners.size === 0) {
+            entry.gcTimer = setTimeout(() => {
+                entry.controller?.abort();
+                this.cache.delete(hash);
+            }, this.gcTime);
+        }
+    }
+
+    /**
+     * 쿼리 상태 조회
+     */
+    getQueryState<T>(key: QueryKey): QueryState<T> {
+        return (this.cache.get(hashQueryKey(key))?.state ?? INITIAL_QUERY_STATE) as QueryState<T>;
+    }
+
+    /**
+     * 캐시된 데이터 조회
+     */
+    getQueryData<T>(key: QueryKey): T | undefined {
+        return this.getQueryState<T>(key).data;
+    }
+
+    /**
+     * 쿼리 상태 구독
+     * @returns 구독 해제 함수
+     */
+    subscribe(key: QueryKey, listener: () => void): () => void {
+        const hash = hashQueryKey(key);
+        const entry = this.ensure(key);
+
+        entry.listeners.add(listener);
+        clearTimeout(entry.gcTimer);
+
+        return () => {
+            entry.listeners.delete(listener);
+            this.scheduleGc(hash, entry);
+        };
+    }
+
+    /**
+     * 데이터가 오래되었는지 확인
+     */
+    isStale(key: QueryKey, staleTime: number = 0): boolean {
+        const { state } = this.ensure(key);
+        return state.isInvalidated || state.updatedAt === 0 || Date.now() - state.updatedAt >= staleTime;
+    }
+
+    /**
+     * 쿼리 실행
+     * 같은 키의 요청이 진행 중이면 그 결과를 공유하고,
+     * 데이터가 아직 신선하면 요청 없이 캐시를 반환
+     *
+     * @param key - 쿼리 키
+     * @param fetcher - 데이터를 가져오는 함수
+     * @param options - 신선도 옵션
+     */
+    fetchQuery<T>(key: QueryKey, fetcher: QueryFunction<T>, options: FetchQueryOptions = {}): Promise<T> {
+        const { staleTime = 0, force = false, transient = false } = options;
+        const entry = this.ensure(key);
+
+        if (!transient) {
+            entry.fetcher = fetcher as QueryFunction<unknown>;
+        }
+
+        // 진행 중인 동일 요청 공유
+        if (entry.promise) {
+            return entry.promise as Promise<T>;
+        }
+
+        if (!force && !this.isStale(key, staleTime)) {
+            return Promise.resolve(entry.state.data as T);
+        }
+
+        const controller = new AbortController();
+        entry.controller = controller;
+        this.setState(entry, { isFetching: true });
+
+        const promise: Promise<T> = fetcher({ signal: controller.signal })
+            .then(
+                (data) => {
+                    // 취소된 요청의 결과는 캐시에 반영하지 않음
+                    if (entry.promise !== promise) return data;
+
+                    this.setState(entry, {
+                        data,
+                        error: null,
+                        status: 'success',
+                        isFetching: false,
+                        updatedAt: Date.now(),
+                        isInvalidated: false,
+                    });
+                    return data;
+                },
+                (error: unknown) => {
+                    // 이전 데이터는 유지하고 에러만 기록
+                    if (entry.promise === promise) {
+                        this.setState(entry, { error, status: 'error', isFetching: false });
+                    }
+                    throw error;
+                }
+            )
+            .finally(() => {
+                if (entry.promise === promise) {
+                    entry.promise = undefined;
+                    entry.controller = undefined;
+                }
+            });
+
+        entry.promise = promise;
+        return promise;
+    }
+
+    /**
+     * 진행 중인 요청이 끝날 때까지 대기 (실패해도 resolve)
+     * 기다리는 동안 새 요청이 시작되면 그 요청도 기다림
+     */
+    async waitForFetch(key: QueryKey): Promise<void> {
+        const hash = hashQueryKey(key);
+        let promise: Promise<unknown> | undefined;
+
+        while ((promise = this.cache.get(hash)?.promise)) {
+            await promise.catch(() => undefined);
+        }
+    }
+
+    /**
+     * 캐시 데이터 직접 설정
+     *
+     * @param key - 쿼리 키
+     * @param updater - 새 데이터 또는 이전 데이터를 받아 새 데이터를 반환하는 함수
+     */
+    setQueryData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)): void {
+        const entry = this.ensure(key);
+        const data =
+            typeof updater === 'function'
+                ? (updater as (previous: T | undefined) => T)(entry.state.data as T | undefined)
+                : updater;
+
+        this.setState(entry, { data, error: null, status: 'success', updatedAt: Date.now() });
+    }
+
+    /**
+     * 키 프리픽스에 해당하는 캐시 목록 조회
+     */
+    findQueries(prefix: QueryKey = []): { key: QueryKey; state: QueryState }[] {
+        return [...this.cache.values()]
+            .filter((entry) => matchesQueryKey(entry.key, prefix))
+            .map(({ key, state }) => ({ key, state }));
+    }
+
+    /**
+     * 키 프리픽스에 해당하는 진행 중인 요청 취소
+     * 낙관적 업데이트 직전에 호출하여 이전 응답이 변경된 캐시를 덮어쓰지 않도록 함
+     *
+     * @param prefix - 취소할 키 프리픽스 (빈 배열이면 전체)
+     */
+    cancelQueries(prefix: QueryKey = []): void {
+        this.cache.forEach((entry) => {
+            if (!entry.promise || !matchesQueryKey(entry.key, prefix)) return;
+
+            const controller = entry.controller;
+            entry.promise = undefined;
+            entry.controller = undefined;
+            controller?.abort();
+            this.setState(entry, { isFetching: false });
+        });
+    }
+
+    /**
+     * 키 프리픽스에 해당하는 캐시 무효화
+     * 구독 중인 쿼리는 즉시 재요청하고, 나머지는 다음 구독 시 재요청
+     *
+     * @param prefix - 무효화할 키 프리픽스 (빈 배열이면 전체)
+     */
+    invalidateQueries(prefix: QueryKey = []): Promise<void> {
+        const refetches: Promise<unknown>[] = [];
+
+        this.cache.forEach((entry) => {
+            if (!matchesQueryKey(entry.key, prefix)) return;
+
+            this.setState(entry, { isInvalidated: true });
+
+            if (entry.listeners.size > 0 && entry.fetcher) {
+                // 진행 중인 요청은 이전 데이터 기준이므로 취소 후 다시 요청
+                entry.controller?.abort();
+                entry.promise = undefined;
+                refetches.push(this.fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => undefined));
+            }
+        });
+
+        return Promise.all(refetches).then(() => undefined);
+    }
+
+    /**
+     * 키 프리픽스에 해당하는 캐시 제거
+     * 구독 중인 항목은 지우지 않고 데이터만 초기화하여, 마운트된 훅이 이후 요청 결과를 계속 받도록 함
+     */
+    removeQueries(prefix: QueryKey = []): void {
+        this.cache.forEach((entry, hash) => {
+            if (!matchesQueryKey(entry.key, prefix)) return;
+
+            const controller = entry.controller;
+            entry.promise = undefined;
+            entry.controller = undefined;
+            controller?.abort();
+
+            if (entry.listeners.size === 0) {
+                clearTimeout(entry.gcTimer);
+                this.cache.delete(hash);
+            }
+
+            this.setState(entry, INITIAL_QUERY_STATE);
+        });
+    }
+
+    /**
+     * 전체 캐시 제거 (로그아웃 등)
+     */
+    clear(): void {
+        this.removeQueries();
+    }
+}
+
+/**
+ * 전역 쿼리 클라이언트 인스턴스
+ */
+export const queryClient = new QueryClient();
@@ -0,0 +1,23 @@
+/**
+ * @file 실시간 모듈 배럴 파일
+ * @description WebSocket 실시간 클라이언트 관련 모듈을 한 곳에서 export
+ */
+
+export {
+    RealtimeClient,
+    realtimeClient,
+    toWebSocketUrl,
+    UNAUTHORIZED_CLOSE_CODE,
+    default,
+} from './realtime-client';
+export type {
+    RealtimeClientOptions,
+    RealtimeReconnectOptions,
+    RealtimeStatus,
+    RealtimeEvents,
+    RealtimeClientMessage,
+    RealtimeServerMessage,
+    TopicListener,
+    WebSocketLike,
+    WebSocketConstructor,
+} from './realtime-client';
@@ -0,0 +1,189 @@
+/**
+ * @file 목 실시간 서버
+ * @description 실제 WebSocket 서버 없이 RealtimeClient를 동작시키는 인프로세스 소켓과 서버
+ *
+ * config.features.useMockData가 true이면 realtimeClient가 이 모듈을 지연 로드하여 목 서버에 연결되며,
+ * 테스트에서는 RealtimeClient의 WebSocket 옵션에 MockWebSocket을 주입하여 사용합니다.
+ *
+ * 동작:
+ * - subscribe/unsubscribe 메시지로 소켓별 구독 토픽 관리
+ * - publish 메시지는 해당 토픽 구독자 전체(발신자 포함)에게 event로 전달
+ * - ping에는 pong으로 응답
+ *
+ * @example
+ * const server = new MockRealtimeServer();
+ * const client = new RealtimeClient({ url: 'ws://mock/ws', WebSocket: server.WebSocket });
+ *
+ * client.subscribe('orders', (data) => console.log(data));
+ * server.push('orders', { id: 1, status: 'paid' });
+ *
+ * // 연결 끊김/인증 실패 재현
+ * server.dropAll();
+ * server.dropAll(4401, 'unauthorized');
+ */
+
+import type { RealtimeClientMessage, RealtimeServerMessage, WebSocketLike } from './realtime-client';
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * 인프로세스 WebSocket (MockRealtimeServer에 연결)
+ */
+export class MockWebSocket implements WebSocketLike {
+    readyState = CONNECTING;
+    onopen: WebSocketLike['onopen'] = null;
+    onmessage: WebSocketLike['onmessage'] = null;
+    onclose: WebSocketLike['onclose'] = null;
+    onerror: WebSocketLike['onerror'] = null;
+
+    /** 구독 중인 토픽 */
+    readonly topics = new Set<string>();
+
+    constructor(
+        readonly url: string,
+        private server: MockRealtimeServer
+    ) {
+        // 실제 WebSocket처럼 비동기로 연결
+        setTimeout(() => {
+            if (this.readyState !== CONNECTING) return;
+
+            if (!server.accept(this)) {
+                this.finish(1006, 'connection refused');
+                return;
+            }
+
+            this.readyState = OPEN;
+            this.onopen?.({});
+        }, server.latencyMs);
+    }
+
+    send(data: string): void {
+        if (this.readyState !== OPEN) {
+            throw new Error('WebSocket이 열려 있지 않습니다.');
+        }
+
+        const message = JSON.parse(data) as RealtimeClientMessage;
+        setTimeout(() => this.server.handle(this, message), this.server.latencyMs);
+    }
+
+    close(code: number = 1000, reason: string = ''): void {
+        if (this.readyState === CLOSED) return;
+        this.finish(code, reason);
+    }
+
+    /**
+     * 서버 → 클라이언트 메시지 전달
+     */
+    deliver(message: RealtimeServerMessage): void {
+        if (this.readyState === OPEN) {
+            this.onmessage?.({ data: JSON.stringify(message) });
+        }
+    }
+
+    /**
+     * 연결 종료 처리 (서버 측 종료 포함)
+     */
+    finish(code: number, reason: string): void {
+        this.readyState = CLOSED;
+        this.server.release(this);
+        setTimeout(() => this.onclose?.({ code, reason }), 0);
+    }
+}
+
+/**
+ * 지정한 서버에 연결되는 MockWebSocket 생성자
+ */
+function bindMockWebSocket(server: MockRealtimeServer): new (url: string) => MockWebSocket {
+    return class extends MockWebSocket {
+        constructor(url: string) {
+            super(url, server);
+        }
+    };
+}
+
+/**
+ * 인프로세스 실시간 서버
+ */
+export class MockRealtimeServer {
+    /** 연결된 소켓 */
+    readonly sockets = new Set<MockWebSocket>();
+
+    /** 메시지 전달 지연 (밀리초) */
+    latencyMs = 10;
+
+    /** false이면 새 연결을 거부 (서버 다운 재현) */
+    online = true;
+
+    /**
+     * RealtimeClient에 주입할 WebSocket 생성자
+     */
+    readonly WebSocket = bindMockWebSocket(this);
+
+    /**
+     * 토픽 구독자에게 이벤트 전송
+     * @returns 전달된 소켓 수
+     */
+    push(topic: string, data: unknown): number {
+        let delivered = 0;
+
+        this.sockets.forEach((socket) => {
+            if (socket.topics.has(topic)) {
+                socket.deliver({ type: 'event', topic, data });
+                delivered++;
+            }
+        });
+
+        return delivered;
+    }
+
+    /**
+     * 모든 연결을 서버 측에서 종료
+     */
+    dropAll(code: number = 1006, reason: string = 'connection lost'): void {
+        this.sockets.forEach((socket) => socket.finish(code, reason));
+    }
+
+    /**
+     * 연결 수락 여부
+     */
+    accept(socket: MockWebSocket): boolean {
+        if (!this.online) return false;
+
+        this.sockets.add(socket);
+        return true;
+    }
+
+    /**
+     * 연결 해제
+     */
+    release(socket: MockWebSocket): void {
+        this.sockets.delete(socket);
+    }
+
+    /**
+     * 클라이언트 메시지 처리
+     */
+    handle(socket: MockWebSocket, message: RealtimeClientMessage): void {
+        switch (message.type) {
+            case 'subscribe':
+                socket.topics.add(message.topic);
+                break;
+            case 'unsubscribe':
+                socket.topics.delete(message.topic);
+                break;
+            case 'publish':
+                this.push(message.topic, message.data);
+                break;
+            case 'ping':
+                socket.deliver({ type: 'pong' });
+                break;
+        }
+    }
+}
+
+/**
+ * 전역 목 실시간 서버 (config.features.useMockData가 true일 때 realtimeClient가 연결)
+ */
+export const mockRealtimeServer = new MockRealtimeServer();
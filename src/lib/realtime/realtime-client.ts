@@ -0,0 +1,595 @@
+/**
+ * @file 실시간 클라이언트
+ * @description 토픽 구독 기반 WebSocket 클라이언트 (인증, 하트비트, 자동 재연결, 오프라인 버퍼링)
+ *
+ * 메시지 프로토콜 (JSON):
+ * - 클라이언트 → 서버
+ *   - `{ type: 'subscribe', topic }` / `{ type: 'unsubscribe', topic }`
+ *   - `{ type: 'publish', topic, data }`
+ *   - `{ type: 'ping' }`
+ * - 서버 → 클라이언트
+ *   - `{ type: 'event', topic, data }`
+ *   - `{ type: 'pong' }`
+ *   - `{ type: 'error', message, topic? }`
+ *
+ * 인증 토큰은 브라우저 WebSocket이 헤더를 지정할 수 없으므로 쿼리 파라미터(기본: `token`)로 전달하며,
+ * 서버는 토큰이 유효하지 않으면 close code 4401로 연결을 종료합니다.
+ *
+ * @example
+ * const unsubscribe = realtimeClient.subscribe<OrderEvent>('orders', (event) => {
+ *   queryClient.invalidateQueries(['orders', event.orderId]);
+ * });
+ *
+ * realtimeClient.publish('chat:room-1', { text: '안녕하세요' });
+ */
+
+import { config } from '@/config';
+import { apiClient } from '@/lib/api/client';
+import { EventEmitter, type EventListener } from '@/lib/api/events';
+import { logger } from '@/lib/logger';
+
+const log = logger.child('realtime');
+
+/**
+ * 브라우저 WebSocket과 호환되는 최소 인터페이스
+ * 테스트/목 환경에서는 이 인터페이스를 구현한 클래스를 주입
+ */
+export interface WebSocketLike {
+    readonly readyState: number;
+    send(data: string): void;
+    close(code?: number, reason?: string): void;
+    onopen: ((event: unknown) => void) | null;
+    onmessage: ((event: { data: unknown }) => void) | null;
+    onclose: ((event: { code: number; reason: string }) => void) | null;
+    onerror: ((event: unknown) => void) | null;
+}
+
+/**
+ * WebSocket 생성자 타입
+ */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/**
+ * 클라이언트 → 서버 메시지
+ */
+export type RealtimeClientMessage =
+    | { type: 'subscribe'; topic: string }
+    | { type: 'unsubscribe'; topic: string }
+    | { type: 'publish'; topic: string; data: unknown }
+    | { type: 'ping' };
+
+/**
+ * 서버 → 클라이언트 메시지
+ */
+export type RealtimeServerMessage =
+    | { type: 'event'; topic: string; data: unknown }
+    | { type: 'pong' }
+    | { type: 'error'; message: string; topic?: string };
+
+/**
+ * 연결 상태
+ * - idle: 연결한 적 없음
+ * - connecting: 연결 중
+ * - open: 연결됨
+ * - reconnecting: 연결이 끊겨 재연결 대기 중
+ * - closed: 연결 종료 (disconnect 호출 또는 재연결 한도 초과)
+ */
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * 토픽 메시지 리스너
+ */
+export type TopicListener<T = unknown> = (data: T, topic: string) => void;
+
+/**
+ * 실시간 클라이언트 이벤트 맵
+ */
+export interface RealtimeEvents {
+    /** 연결 상태 변경 */
+    status: { status: RealtimeStatus };
+    /** 서버 에러 메시지 또는 재연결 한도 초과 */
+    error: { message: string; topic?: string };
+    /** 재연결 예약 */
+    reconnect: { attempt: number; delayMs: number };
+}
+
+/**
+ * 재연결 설정
+ */
+export interface RealtimeReconnectOptions {
+    /** 최대 연속 재연결 횟수 (기본: Infinity) */
+    maxAttempts: number;
+    /** 첫 재연결 대기 시간 (밀리초, 기본: 1000) */
+    baseDelayMs: number;
+    /** 최대 대기 시간 (밀리초, 기본: 30000) */
+    maxDelayMs: number;
+}
+
+/**
+ * RealtimeClient 생성 옵션
+ */
+export interface RealtimeClientOptions {
+    /** WebSocket URL (ws:// 또는 wss://) */
+    url: string;
+    /** 연결 시점의 인증 토큰 조회 함수 */
+    getToken?: () => string | null;
+    /** 토큰을 전달할 쿼리 파라미터 이름 (기본: 'token') */
+    tokenParam?: string;
+    /** 인증 실패(4401)로 종료되었을 때 토큰 갱신 함수 (실패하거나 갱신한 토큰도 거부되면 연결 종료) */
+    onUnauthorized?: () => Promise<unknown>;
+    /** WebSocket 생성자 (기본: 전역 WebSocket, 테스트/목 환경에서 교체) */
+    WebSocket?: WebSocketConstructor;
+    /** WebSocket 생성자를 처음 연결할 때 불러오는 함수 (목 서버 등 필요할 때만 로드, WebSocket 옵션이 우선) */
+    loadWebSocket?: () => Promise<WebSocketConstructor>;
+    /** 하트비트 전송 간격 (밀리초, 0이면 비활성화, 기본: 25000) */
+    heartbeatIntervalMs?: number;
+    /** 하트비트 후 응답 대기 시간 (밀리초, 초과하면 재연결, 기본: 10000) */
+    heartbeatTimeoutMs?: number;
+    /** 재연결 설정 */
+    reconnect?: Partial<RealtimeReconnectOptions>;
+    /** 연결되지 않은 동안 보관할 최대 발행 메시지 수 (초과 시 오래된 메시지부터 버림, 기본: 100) */
+    maxBufferSize?: number;
+}
+
+/**
+ * 인증 실패 close code
+ */
+export const UNAUTHORIZED_CLOSE_CODE = 4401;
+
+/**
+ * 하트비트 응답 없음 close code
+ */
+const HEARTBEAT_TIMEOUT_CLOSE_CODE = 4000;
+
+/**
+ * WebSocket.OPEN
+ */
+const OPEN = 1;
+
+/**
+ * 기본 재연결 설정
+ */
+const DEFAULT_RECONNECT: RealtimeReconnectOptions = {
+    maxAttempts: Infinity,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+};
+
+/**
+ * API URL을 WebSocket URL로 변환
+ *
+ * @example
+ * toWebSocketUrl('https://api.example.com/api'); // 'wss://api.example.com/api/ws'
+ */
+export function toWebSocketUrl(apiUrl: string, path: string = '/ws'): string {
+    return `${apiUrl.replace(/^http/, 'ws').replace(/\/$/, '')}${path}`;
+}
+
+/**
+ * 실시간 클라이언트
+ */
+export class RealtimeClient {
+    /** 생성 옵션 (기본값 적용) */
+    private options: Required<
+        Omit<RealtimeClientOptions, 'getToken' | 'onUnauthorized' | 'WebSocket' | 'loadWebSocket' | 'reconnect'>
+    > &
+        Pick<RealtimeClientOptions, 'getToken' | 'onUnauthorized' | 'WebSocket' | 'loadWebSocket'> & {
+            reconnect: RealtimeReconnectOptions;
+        };
+
+    /** 현재 소켓 */
+    private socket: WebSocketLike | null = null;
+
+    /** 연결 상태 */
+    private status: RealtimeStatus = 'idle';
+
+    /** 토픽별 리스너 */
+    private topics = new Map<string, Set<TopicListener>>();
+
+    /** 연결되지 않은 동안 쌓인 발행 메시지 */
+    private buffer: RealtimeClientMessage[] = [];
+
+    /** 연속 재연결 시도 횟수 */
+    private reconnectAttempt = 0;
+
+    /** 연결 유지 여부 (disconnect 호출 시 false) */
+    private active = false;
+
+    /**
+     * 4401 이후 토큰을 갱신하고 재연결했는지 여부
+     * 서버 메시지를 받으면 초기화되며, 갱신한 토큰도 거부되면 재연결하지 않음
+     */
+    private authRetried = false;
+
+    /** loadWebSocket 진행 중 Promise */
+    private webSocketLoader?: Promise<void>;
+
+    private reconnectTimer?: ReturnType<typeof setTimeout>;
+    private heartbeatTimer?: ReturnType<typeof setInterval>;
+    private heartbeatTimeout?: ReturnType<typeof setTimeout>;
+
+    /** 클라이언트 이벤트 */
+    private events = new EventEmitter<RealtimeEvents>();
+
+    constructor(options: RealtimeClientOptions) {
+        this.options = {
+            tokenParam: 'token',
+            heartbeatIntervalMs: 25000,
+            heartbeatTimeoutMs: 10000,
+            maxBufferSize: 100,
+            ...options,
+            reconnect: { ...DEFAULT_RECONNECT, ...options.reconnect },
+        };
+    }
+
+    /**
+     * 현재 연결 상태
+     */
+    getStatus(): RealtimeStatus {
+        return this.status;
+    }
+
+    /**
+     * 클라이언트 이벤트 구독
+     * @returns 구독 해제 함수
+     */
+    on<K extends keyof RealtimeEvents>(event: K, listener: EventListener<RealtimeEvents[K]>): () => void {
+        return this.events.on(event, listener);
+    }
+
+    /**
+     * 연결 시작 (이미 연결 중이면 무시)
+     * subscribe()/publish() 호출 시 자동으로 호출됨
+     */
+    connect(): void {
+        if (this.active) {
+            return;
+        }
+
+        this.active = true;
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', this.handleOnline);
+        }
+        this.open();
+    }
+
+    /**
+     * 연결 종료 (재연결하지 않음, 구독 목록은 유지되어 다음 connect() 시 복원)
+     */
+    disconnect(): void {
+        this.active = false;
+        clearTimeout(this.reconnectTimer);
+        this.stopHeartbeat();
+
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('online', this.handleOnline);
+        }
+
+        this.closeSocket(1000, 'client disconnect');
+        this.setStatus('closed');
+    }
+
+    /**
+     * 즉시 재연결 (토큰 변경 등)
+     * 연결 중이 아니면 무시
+     */
+    reconnect(): void {
+        if (!this.active) {
+            return;
+        }
+
+        clearTimeout(this.reconnectTimer);
+        this.stopHeartbeat();
+        this.closeSocket(1000, 'client reconnect');
+        this.open();
+    }
+
+    /**
+     * 토픽 구독
+     *
+     * @param topic - 토픽 이름
+     * @param listener - 메시지 리스너
+     * @returns 구독 해제 함수
+     */
+    subscribe<T = unknown>(topic: string, listener: TopicListener<T>): () => void {
+        let listeners = this.topics.get(topic);
+
+        if (!listeners) {
+            listeners = new Set();
+            this.topics.set(topic, listeners);
+            this.send({ type: 'subscribe', topic });
+        }
+
+        listeners.add(listener as TopicListener);
+        this.connect();
+
+        return () => {
+            const current = this.topics.get(topic);
+            if (!current?.delete(listener as TopicListener) || current.size > 0) {
+                return;
+            }
+
+            this.topics.delete(topic);
+            this.send({ type: 'unsubscribe', topic });
+        };
+    }
+
+    /**
+     * 토픽에 메시지 발행
+     * 연결되지 않은 상태면 버퍼에 보관했다가 연결 후 순서대로 전송
+     */
+    publish(topic: string, data: unknown): void {
+        const message: RealtimeClientMessage = { type: 'publish', topic, data };
+
+        if (!this.send(message)) {
+            this.buffer = [...this.buffer, message].slice(-this.options.maxBufferSize);
+        }
+
+        this.connect();
+    }
+
+    /**
+     * 연결된 경우에만 메시지 전송
+     * @returns 전송 여부
+     */
+    private send(message: RealtimeClientMessage): boolean {
+        if (this.socket?.readyState !== OPEN) {
+            return false;
+        }
+
+        this.socket.send(JSON.stringify(message));
+        return true;
+    }
+
+    /**
+     * 상태 변경 및 알림
+     */
+    private setStatus(status: RealtimeStatus): void {
+        if (this.status !== status) {
+            this.status = status;
+            this.events.emit('status', { status });
+        }
+    }
+
+    /**
+     * 소켓 열기
+     */
+    private open(): void {
+        if (this.socket || !this.active) {
+            return;
+        }
+
+        const SocketImpl = this.resolveWebSocket();
+        if (!SocketImpl) {
+            // 생성자를 불러온 뒤 다시 연결
+            return;
+        }
+
+        const url = new URL(this.options.url);
+        const token = this.options.getToken?.();
+
+        if (token) {
+            url.searchParams.set(this.options.tokenParam, token);
+        }
+
+        this.setStatus(this.status === 'reconnecting' || this.reconnectAttempt > 0 ? 'reconnecting' : 'connecting');
+
+        const socket = new SocketImpl(url.toString());
+        this.socket = socket;
+
+        socket.onopen = () => this.handleOpen(socket);
+        socket.onmessage = (event) => this.handleMessage(socket, event.data);
+        socket.onclose = (event) => this.handleClose(socket, event.code);
+        // 에러 후에는 항상 close 이벤트가 발생하므로 재연결은 onclose에서 처리
+        socket.onerror = () => undefined;
+    }
+
+    /**
+     * 사용할 WebSocket 생성자
+     * loadWebSocket으로 불러오는 중이면 null을 반환하고, 불러온 뒤 open()을 다시 호출
+     */
+    private resolveWebSocket(): WebSocketConstructor | null {
+        const { WebSocket: SocketImpl, loadWebSocket } = this.options;
+
+        if (SocketImpl) return SocketImpl;
+        if (!loadWebSocket) return globalThis.WebSocket as unknown as WebSocketConstructor;
+
+        this.webSocketLoader ??= loadWebSocket().then(
+            (loaded) => {
+                this.options.WebSocket = loaded;
+                this.open();
+            },
+            (error: unknown) => {
+                this.webSocketLoader = undefined;
+                log.error('WebSocket 구현을 불러오지 못했습니다', { error });
+                this.events.emit('error', { message: '실시간 서버에 연결할 수 없습니다.' });
+                this.disconnect();
+            }
+        );
+
+        return null;
+    }
+
+    /**
+     * 소켓 닫기 (이후 이벤트는 무시)
+     */
+    private closeSocket(code: number, reason: string): void {
+        const socket = this.socket;
+        if (!socket) {
+            return;
+        }
+
+        this.socket = null;
+        socket.onopen = socket.onmessage = socket.onclose = socket.onerror = null;
+        socket.close(code, reason);
+    }
+
+    /**
+     * 연결 성공: 구독 복원, 버퍼 전송, 하트비트 시작
+     */
+    private handleOpen(socket: WebSocketLike): void {
+        if (socket !== this.socket) return;
+
+        this.reconnectAttempt = 0;
+        this.setStatus('open');
+
+        this.topics.forEach((_, topic) => this.send({ type: 'subscribe', topic }));
+
+        const pending = this.buffer;
+        this.buffer = [];
+        pending.forEach((message) => this.send(message));
+
+        this.startHeartbeat();
+    }
+
+    /**
+     * 서버 메시지 처리
+     */
+    private handleMessage(socket: WebSocketLike, raw: unknown): void {
+        if (socket !== this.socket) return;
+
+        // 어떤 메시지든 받으면 연결이 살아 있고 토큰이 수락됨
+        clearTimeout(this.heartbeatTimeout);
+        this.authRetried = false;
+
+        let message: RealtimeServerMessage;
+        try {
+            message = JSON.parse(String(raw)) as RealtimeServerMessage;
+        } catch {
+            log.warn('메시지를 파싱할 수 없습니다', { raw });
+            return;
+        }
+
+        switch (message.type) {
+            case 'event':
+                this.topics.get(message.topic)?.forEach((listener) => {
+                    try {
+                        listener(message.data, message.topic);
+                    } catch (error) {
+                        log.error('리스너 실행 실패', { topic: message.topic, error });
+                    }
+                });
+                break;
+            case 'error':
+                this.events.emit('error', { message: message.message, topic: message.topic });
+                break;
+        }
+    }
+
+    /**
+     * 연결 종료 처리: 인증 실패면 토큰 갱신 후 백오프 재연결 (갱신 실패 또는 갱신한 토큰도 거부되면 종료),
+     * 그 외에는 백오프 후 재연결
+     */
+    private handleClose(socket: WebSocketLike, code: number): void {
+        if (socket !== this.socket) return;
+
+        this.socket = null;
+        this.stopHeartbeat();
+
+        if (!this.active) {
+            this.setStatus('closed');
+            return;
+        }
+
+        if (code === UNAUTHORIZED_CLOSE_CODE && this.options.onUnauthorized) {
+            const failAuth = () => {
+                this.events.emit('error', { message: '실시간 연결 인증에 실패했습니다.' });
+                this.disconnect();
+            };
+
+            if (this.authRetried) {
+                failAuth();
+                return;
+            }
+
+            this.authRetried = true;
+            this.setStatus('reconnecting');
+            this.options.onUnauthorized().then(() => {
+                if (this.active && !this.socket) this.scheduleReconnect();
+            }, failAuth);
+            return;
+        }
+
+        this.scheduleReconnect();
+    }
+
+    /**
+     * 지수 백오프(full jitter)로 재연결 예약
+     */
+    private scheduleReconnect(): void {
+        const { maxAttempts, baseDelayMs, maxDelayMs } = this.options.reconnect;
+
+        if (this.reconnectAttempt >= maxAttempts) {
+            this.events.emit('error', { message: '실시간 서버에 다시 연결할 수 없습니다.' });
+            this.disconnect();
+            return;
+        }
+
+        this.reconnectAttempt++;
+        const delayMs = Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (this.reconnectAttempt - 1)));
+
+        this.setStatus('reconnecting');
+        this.events.emit('reconnect', { attempt: this.reconnectAttempt, delayMs });
+        this.reconnectTimer = setTimeout(() => this.open(), delayMs);
+    }
+
+    /**
+     * 네트워크 복구 시 대기 중인 재연결을 즉시 실행
+     */
+    private handleOnline = (): void => {
+        if (this.active && !this.socket) {
+            clearTimeout(this.reconnectTimer);
+            this.open();
+        }
+    };
+
+    /**
+     * 하트비트 시작
+     * 주기적으로 ping을 보내고, 제한 시간 안에 아무 메시지도 받지 못하면 연결을 끊고 재연결
+     */
+    private startHeartbeat(): void {
+        const { heartbeatIntervalMs, heartbeatTimeoutMs } = this.options;
+        if (heartbeatIntervalMs <= 0) return;
+
+        this.heartbeatTimer = setInterval(() => {
+            if (!this.send({ type: 'ping' })) return;
+
+            clearTimeout(this.heartbeatTimeout);
+            this.heartbeatTimeout = setTimeout(() => {
+                const socket = this.socket;
+                if (!socket) return;
+
+                // 응답 없는 연결을 정리하고 재연결
+                this.closeSocket(HEARTBEAT_TIMEOUT_CLOSE_CODE, 'heartbeat timeout');
+                this.stopHeartbeat();
+                this.scheduleReconnect();
+            }, heartbeatTimeoutMs);
+        }, heartbeatIntervalMs);
+    }
+
+    /**
+     * 하트비트 중지
+     */
+    private stopHeartbeat(): void {
+        clearInterval(this.heartbeatTimer);
+        clearTimeout(this.heartbeatTimeout);
+    }
+}
+
+/**
+ * 전역 실시간 클라이언트 인스턴스
+ * apiClient와 같은 인증 토큰을 사용하며, 토큰이 바뀌면 새 토큰으로 재연결
+ */
+export const realtimeClient = new RealtimeClient({
+    url: toWebSocketUrl(config.apiUrl),
+    getToken: () => apiClient.getAuthToken(),
+    onUnauthorized: () => apiClient.refreshAuthToken(),
+    // 목 데이터 모드에서는 인프로세스 목 서버에 연결 (필요할 때만 로드)
+    loadWebSocket: config.features.useMockData
+        ? () => import('./mock-socket').then(({ mockRealtimeServer }) => mockRealtimeServer.WebSocket)
+        : undefined,
+});
+
+apiClient.on('authTokenChanged', () => realtimeClient.reconnect());
+
+export default realtimeClient;